@@ -1,104 +1,469 @@
-import { spawn } from 'child_process';
-import { ShellType } from './configManager';
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandProfile, InputMode, ShellType } from './configManager';
+import { PLACEHOLDER_PATTERN, TemplateVariables } from './templateVariables';
 
 export interface CommandResult {
     success: boolean;
-    output: string;
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    signal: string | null;
+    durationMs: number;
+    truncated: boolean;
     error?: string;
+    profile: string;
+    command: string;
+    cancelled?: boolean;
+    timedOut?: boolean;
+    cachedAt?: number;
+    mapping?: string;
 }
 
+type ExecutionOutcome = Omit<CommandResult, 'profile' | 'command'>;
+
+export function formatDuration(durationMs: number): string {
+    return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface ExecutionOptions {
+    onOutput?: (chunk: string, stream: OutputStream) => void;
+    signal?: AbortSignal;
+    variables?: TemplateVariables;
+}
+
+interface PreparedCommand {
+    file: string;
+    args: string[];
+    display: string;
+    stdin?: string;
+    env?: Record<string, string>;
+}
+
+type QuotingStyle = 'posix' | 'fish' | 'powershell';
+
+// The quotes a placeholder sits in within a template
+type QuoteContext = 'none' | 'single' | 'double';
+
+interface ShellDefinition {
+    executable: string;
+    args: string[];
+    quoting: QuotingStyle;
+}
+
+const SHELLS: Record<Exclude<ShellType, ShellType.Custom>, ShellDefinition> = {
+    [ShellType.Bash]: { executable: '/bin/bash', args: ['-c'], quoting: 'posix' },
+    [ShellType.Sh]: { executable: 'sh', args: ['-c'], quoting: 'posix' },
+    [ShellType.Zsh]: { executable: 'zsh', args: ['-c'], quoting: 'posix' },
+    [ShellType.Fish]: { executable: 'fish', args: ['-c'], quoting: 'fish' },
+    [ShellType.PowerShell]: { executable: 'powershell.exe', args: ['-Command'], quoting: 'powershell' },
+    [ShellType.Pwsh]: { executable: 'pwsh', args: ['-Command'], quoting: 'powershell' }
+};
+
 export class CommandExecutor {
     
-    async execute(selectedText: string, commandTemplate: string, shellType: ShellType, timeout: number): Promise<CommandResult> {
-        const sanitizedInput = this.sanitizeInput(selectedText);
-        const command = this.buildCommand(commandTemplate, sanitizedInput, shellType);
+    async execute(selectedText: string, profile: CommandProfile, options: ExecutionOptions = {}): Promise<CommandResult> {
+        const prepared = this.prepareCommand(selectedText, profile, options.variables ?? {});
+        
+        const result = await this.executeCommand(prepared, profile, options);
+        return { ...result, profile: profile.name, mapping: profile.mapping, command: prepared.display };
+    }
+    
+    describeCommand(selectedText: string, profile: CommandProfile, variables: TemplateVariables = {}): string {
+        return this.prepareCommand(selectedText, profile, variables).display;
+    }
+    
+    private prepareCommand(selectedText: string, profile: CommandProfile, variables: TemplateVariables): PreparedCommand {
+        const { commandTemplate } = profile;
+        const shell = this.getShell(profile);
+        const values: TemplateVariables = { ...variables, input: selectedText };
         
-        return this.executeCommand(command, shellType, timeout);
+        switch (profile.inputMode) {
+            case InputMode.Argv: {
+                // Spawned without a shell, so every value is passed as one literal argument
+                const [file, ...args] = (profile.commandArgs ?? []).map(arg =>
+                    this.substitute(arg, values, value => value)
+                );
+                return {
+                    file,
+                    args,
+                    display: [file, ...args].map(arg => this.quoteForDisplay(arg)).join(' ')
+                };
+            }
+            case InputMode.Stdin: {
+                // The selection goes to stdin; any other placeholders are escaped as in shell mode
+                const { input, ...rest } = values;
+                return {
+                    ...this.shellInvocation(this.buildCommand(commandTemplate, rest, shell), shell),
+                    stdin: input
+                };
+            }
+            case InputMode.Env: {
+                const env: Record<string, string> = {};
+                const command = this.substituteInShell(commandTemplate, values, shell, (value, name, quote) => {
+                    const envName = this.envVariableName(profile.inputEnvVar, name);
+                    env[envName] = value;
+                    return this.envReference(envName, shell, quote);
+                });
+                return {
+                    ...this.shellInvocation(command, shell),
+                    env
+                };
+            }
+            default:
+                return this.shellInvocation(this.buildCommand(commandTemplate, values, shell), shell);
+        }
+    }
+    
+    private substitute(
+        template: string,
+        values: TemplateVariables,
+        transform: (value: string, name: string) => string
+    ): string {
+        return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+            values[name] === undefined ? match : transform(values[name], name)
+        );
     }
     
-    private sanitizeInput(input: string): string {
-        // Escape special characters to prevent command injection
-        // For shell commands, we need to escape quotes and special characters
-        return input
-            .replace(/\\/g, '\\\\')
-            .replace(/"/g, '\\"')
-            .replace(/'/g, "\\'")
-            .replace(/`/g, '\\`')
-            .replace(/\$/g, '\\$');
+    /**
+     * Like substitute, but also tells the transform whether the placeholder is inside
+     * single or double quotes, so that it can step out of them.
+     */
+    private substituteInShell(
+        template: string,
+        values: TemplateVariables,
+        shell: ShellDefinition,
+        transform: (value: string, name: string, quote: QuoteContext) => string
+    ): string {
+        let quote: QuoteContext = 'none';
+        let scanned = 0;
+        return template.replace(PLACEHOLDER_PATTERN, (match, name: string, offset: number) => {
+            quote = this.findQuote(template.substring(scanned, offset), quote, shell.quoting);
+            scanned = offset + match.length;
+            return values[name] === undefined ? match : transform(values[name], name, quote);
+        });
     }
     
-    private buildCommand(template: string, sanitizedInput: string, shellType: ShellType): string {
-        // Replace {{input}} placeholder with sanitized input
-        let command = template.replace(/\{\{input\}\}/g, sanitizedInput);
+    private findQuote(text: string, quote: QuoteContext, quoting: QuotingStyle): QuoteContext {
+        const escape = quoting === 'powershell' ? '`' : '\\';
         
-        // For PowerShell, wrap the command appropriately
-        if (shellType === ShellType.PowerShell) {
-            command = command.replace(/'/g, "''"); // Escape single quotes for PowerShell
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quote === 'single') {
+                if (char === "'") {
+                    quote = 'none';
+                } else if (quoting === 'fish' && char === '\\') {
+                    // fish allows \' and \\ inside single quotes
+                    i++;
+                }
+            } else if (char === escape) {
+                i++;
+            } else if (char === "'" && quote === 'none') {
+                quote = 'single';
+            } else if (char === '"') {
+                quote = quote === 'double' ? 'none' : 'double';
+            }
         }
         
-        return command;
+        return quote;
     }
-
-    private executeCommand(command: string, shellType: ShellType, timeout: number): Promise<CommandResult> {
+    
+    /**
+     * Closes the quotes around a placeholder, inserts a complete shell word and reopens them,
+     * e.g. '{{input}}' becomes ''"$COMMAND_INPUT"'' in bash.
+     */
+    private insertWord(word: string, quote: QuoteContext): string {
+        switch (quote) {
+            case 'single':
+                return `'${word}'`;
+            case 'double':
+                return `"${word}"`;
+            default:
+                return word;
+        }
+    }
+    
+    private getShell(profile: CommandProfile): ShellDefinition {
+        if (profile.shellType !== ShellType.Custom) {
+            return SHELLS[profile.shellType] ?? SHELLS[ShellType.Bash];
+        }
+        
+        // e.g. ["nu", "-c"]; quoting is guessed from the executable name
+        const [executable = '', ...args] = profile.customShell ?? [];
+        const name = path.basename(executable).toLowerCase().replace(/\.exe$/, '');
+        const quoting: QuotingStyle = name === 'fish' ? 'fish'
+            : name === 'pwsh' || name === 'powershell' ? 'powershell'
+            : 'posix';
+        
+        return { executable, args, quoting };
+    }
+    
+    private shellInvocation(command: string, shell: ShellDefinition): PreparedCommand {
+        return { file: shell.executable, args: [...shell.args, command], display: command };
+    }
+    
+    private envVariableName(inputEnvVar: string, placeholder: string): string {
+        return placeholder === 'input'
+            ? inputEnvVar
+            : `${inputEnvVar}_${placeholder.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    }
+    
+    private envReference(name: string, shell: ShellDefinition, quote: QuoteContext): string {
+        if (shell.quoting !== 'powershell') {
+            return this.insertWord(`"$${name}"`, quote);
+        }
+        
+        // PowerShell cannot join adjacent strings outside expressions, so it uses string operators instead
+        switch (quote) {
+            case 'single':
+                return `'+$env:${name}+'`;
+            case 'double':
+                return `$($env:${name})`;
+            default:
+                return `$env:${name}`;
+        }
+    }
+    
+    private quoteForDisplay(arg: string): string {
+        return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    }
+    
+    private quoteValue(value: string, quoting: QuotingStyle, quote: QuoteContext): string {
+        switch (quoting) {
+            case 'powershell': {
+                // PowerShell cannot join adjacent strings outside expressions, so the value is escaped for the quotes it is in
+                if (quote === 'double') {
+                    return value.replace(/[`"$\u201C\u201D\u201E]/g, '`$&');
+                }
+                const escaped = value.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&');
+                return quote === 'single' ? escaped : `'${escaped}'`;
+            }
+            case 'fish':
+                // Only \\ and \' are escapes inside fish single quotes
+                return this.insertWord(`'${value.replace(/[\\']/g, '\\$&')}'`, quote);
+            default:
+                // Nothing is special inside POSIX single quotes, so a quote ends the string, is escaped and reopens it
+                return this.insertWord(`'${value.replace(/'/g, `'\\''`)}'`, quote);
+        }
+    }
+    
+    private buildCommand(template: string, values: TemplateVariables, shell: ShellDefinition): string {
+        // Replace placeholders with values quoted as one word for the chosen shell
+        return this.substituteInShell(template, values, shell, (value, _name, quote) => this.quoteValue(value, shell.quoting, quote));
+    }
+    
+    private executeCommand(prepared: PreparedCommand, profile: CommandProfile, options: ExecutionOptions): Promise<ExecutionOutcome> {
+        const { timeout, maxOutputSize, killGracePeriod } = profile;
+        const { onOutput, signal } = options;
+        const startTime = Date.now();
+        
+        const notStarted = (error: string, cancelled?: boolean): ExecutionOutcome => ({
+            success: false,
+            stdout: '',
+            stderr: '',
+            exitCode: null,
+            signal: null,
+            durationMs: 0,
+            truncated: false,
+            error,
+            cancelled
+        });
+        
         return new Promise((resolve) => {
-            const shell = shellType === ShellType.PowerShell ? 'powershell.exe' : '/bin/bash';
-            const shellArgs = shellType === ShellType.PowerShell ? ['-Command', command] : ['-c', command];
+            if (signal?.aborted) {
+                resolve(notStarted('Command execution was cancelled', true));
+                return;
+            }
+            
+            if (!prepared.file) {
+                resolve(notStarted('No command configured'));
+                return;
+            }
+            
+            const env = profile.env || prepared.env
+                ? { ...globalThis.process.env, ...profile.env, ...prepared.env }
+                : undefined;
             
-            const process = spawn(shell, shellArgs);
+            const process = spawn(prepared.file, prepared.args, {
+                cwd: profile.cwd || undefined,
+                env,
+                // Run in its own process group so cancellation can kill the whole tree
+                detached: globalThis.process.platform !== 'win32'
+            });
             
             let stdout = '';
             let stderr = '';
+            let outputSize = 0;
+            let truncated = false;
             let timedOut = false;
+            let cancelled = false;
+            // The shell can exit while children it started still hold the output pipes open, so only
+            // the close event tells that every process is gone
+            let closed = false;
             
             // Set up timeout
             const timeoutId = setTimeout(() => {
                 timedOut = true;
-                process.kill();
+                this.terminate(process, killGracePeriod, () => closed);
             }, timeout);
             
+            // Kill the process when the caller cancels
+            const onAbort = () => {
+                cancelled = true;
+                this.terminate(process, killGracePeriod, () => closed);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            
+            // Pipe the selection to stdin when requested; always close it so commands never wait on input
+            process.stdin.on('error', () => { /* the command may exit without reading stdin */ });
+            process.stdin.end(prepared.stdin);
+            
+            // Capture output up to maxOutputSize bytes across both streams, then stop the command
+            const capture = (data: Buffer, stream: OutputStream) => {
+                if (truncated) {
+                    return;
+                }
+                
+                let chunkData = data;
+                if (outputSize + data.length > maxOutputSize) {
+                    chunkData = data.subarray(0, Math.max(0, maxOutputSize - outputSize));
+                    truncated = true;
+                    this.terminate(process, killGracePeriod, () => closed);
+                }
+                outputSize += chunkData.length;
+                
+                const chunk = chunkData.toString();
+                if (stream === 'stdout') {
+                    stdout += chunk;
+                } else {
+                    stderr += chunk;
+                }
+                onOutput?.(chunk, stream);
+            };
+            
             // Capture stdout
-            process.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
+            process.stdout.on('data', (data: Buffer) => capture(data, 'stdout'));
             
             // Capture stderr
-            process.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
+            process.stderr.on('data', (data: Buffer) => capture(data, 'stderr'));
             
             // Handle process completion
-            process.on('close', (code) => {
+            process.on('close', (code, exitSignal) => {
+                closed = true;
                 clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', onAbort);
                 
-                if (timedOut) {
-                    resolve({
-                        success: false,
-                        output: '',
-                        error: `Command execution timed out after ${timeout}ms`
-                    });
-                } else if (code !== 0) {
-                    resolve({
-                        success: false,
-                        output: stdout,
-                        error: stderr || `Command exited with code ${code}`
-                    });
+                const outcome: ExecutionOutcome = {
+                    // A command stopped for exceeding the output limit still produced usable output
+                    success: !cancelled && !timedOut && (code === 0 || truncated),
+                    stdout,
+                    stderr,
+                    exitCode: code,
+                    signal: exitSignal,
+                    durationMs: Date.now() - startTime,
+                    truncated
+                };
+                
+                if (cancelled) {
+                    resolve({ ...outcome, error: 'Command execution was cancelled', cancelled: true });
+                } else if (timedOut) {
+                    resolve({ ...outcome, error: `Command execution timed out after ${timeout}ms`, timedOut: true });
+                } else if (code !== 0 && !truncated) {
+                    resolve({ ...outcome, error: `Command exited with ${code === null ? `signal ${exitSignal}` : `code ${code}`}` });
                 } else {
-                    resolve({
-                        success: true,
-                        output: stdout || stderr
-                    });
+                    resolve(outcome);
                 }
             });
             
             // Handle process errors
             process.on('error', (error) => {
+                closed = true;
                 clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', onAbort);
                 resolve({
-                    success: false,
-                    output: '',
-                    error: `Failed to execute command: ${error.message}`
+                    ...notStarted(this.describeSpawnError(error, prepared, profile)),
+                    durationMs: Date.now() - startTime
                 });
             });
         });
     }
+    
+    private describeSpawnError(error: NodeJS.ErrnoException, prepared: PreparedCommand, profile: CommandProfile): string {
+        if (error.code !== 'ENOENT') {
+            return `Failed to execute command: ${error.message}`;
+        }
+        
+        // spawn reports a missing working directory as ENOENT too
+        if (profile.cwd && !fs.existsSync(profile.cwd)) {
+            return `Working directory does not exist: ${profile.cwd}`;
+        }
+        
+        if (profile.inputMode === InputMode.Argv) {
+            return `Command not found: ${prepared.file}. Check that it is installed and on your PATH.`;
+        }
+        
+        return `Shell not found: ${prepared.file}. Install it or choose a different shellType (current: ${profile.shellType}).`;
+    }
+    
+    /**
+     * Sends SIGTERM to the process tree and escalates to SIGKILL, repeated every grace period,
+     * while anything in the process group is still alive and the output has not closed.
+     * Background children are signalled even after the shell itself has exited.
+     */
+    private terminate(process: ChildProcess, gracePeriod: number, isClosed: () => boolean): void {
+        if (process.pid === undefined || isClosed()) {
+            return;
+        }
+        
+        if (globalThis.process.platform === 'win32') {
+            // taskkill /F is already forceful, but needs the shell to find its children
+            if (process.exitCode === null && process.signalCode === null) {
+                this.killProcessTree(process, 'SIGTERM');
+            }
+            return;
+        }
+        
+        this.killProcessTree(process, 'SIGTERM');
+        
+        const pid = process.pid;
+        const escalate = () => {
+            if (!isClosed() && this.isProcessGroupAlive(pid)) {
+                this.killProcessTree(process, 'SIGKILL');
+                setTimeout(escalate, gracePeriod).unref();
+            }
+        };
+        setTimeout(escalate, gracePeriod).unref();
+    }
+    
+    private isProcessGroupAlive(pid: number): boolean {
+        try {
+            // Signal 0 only checks whether the group still exists
+            globalThis.process.kill(-pid, 0);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+    
+    private killProcessTree(process: ChildProcess, killSignal: NodeJS.Signals): void {
+        if (process.pid === undefined) {
+            return;
+        }
+        
+        if (globalThis.process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(process.pid), '/T', '/F'])
+                .on('error', () => process.kill());
+            return;
+        }
+        
+        try {
+            // Negative pid signals the whole process group, including children that outlived the shell
+            globalThis.process.kill(-process.pid, killSignal);
+        } catch {
+            process.kill(killSignal);
+        }
+    }
 }
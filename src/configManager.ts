@@ -1,36 +1,231 @@
 import * as vscode from 'vscode';
+import { getPlaceholderNames, getProfileTemplates, isKnownPlaceholder, isPromptPlaceholder } from './templateVariables';
 
 export enum ShellType {
     Bash = 'bash',
-    PowerShell = 'powershell'
+    Sh = 'sh',
+    Zsh = 'zsh',
+    Fish = 'fish',
+    PowerShell = 'powershell',
+    Pwsh = 'pwsh',
+    Custom = 'custom'
+}
+
+export enum InputMode {
+    Shell = 'shell',
+    Stdin = 'stdin',
+    Argv = 'argv',
+    Env = 'env'
+}
+
+export enum DecorationMode {
+    Off = 'off',
+    StatusOnly = 'statusOnly',
+    FirstLine = 'firstLine'
+}
+
+export interface CommandProfile {
+    name: string;
+    commandTemplate: string;
+    shellType: ShellType;
+    customShell?: string[];
+    timeout: number;
+    maxOutputSize: number;
+    killGracePeriod: number;
+    cacheTtl: number;
+    inputMode: InputMode;
+    commandArgs?: string[];
+    inputEnvVar: string;
+    cwd?: string;
+    env?: Record<string, string>;
+    envFile?: string;
+    showInContextMenu: boolean;
+    mapping?: string;
+}
+
+/**
+ * A language or file pattern mapping: either a command template or the name of a profile.
+ */
+export type TemplateMapping = string | { profile: string };
+
+export interface HoverPatternConfig {
+    pattern: string;
+    profile?: string;
+    commandTemplate?: string;
+    cacheTtl?: number;
+}
+
+export interface HoverPattern {
+    regex: RegExp;
+    profile: CommandProfile;
+    cacheTtl: number;
 }
 
 export interface ExtensionConfig {
     commandTemplate: string;
     shellType: ShellType;
     timeout: number;
+    inputMode: InputMode;
+    maxConcurrency: number;
+    cacheMaxEntries: number;
+    defaultProfile: CommandProfile;
+    profiles: CommandProfile[];
+    languageTemplates: Record<string, TemplateMapping>;
+    fileTemplates: Record<string, TemplateMapping>;
+    hoverPatterns: HoverPatternConfig[];
+    hoverDelay: number;
+    decorations: DecorationMode;
+    outputRetention: number;
+    maxOutputsPerDocument: number;
+    historySize: number;
+    outputPanelRuns: number;
 }
 
-export class ConfigManager {
+export class ConfigManager implements vscode.Disposable {
     private static readonly CONFIG_SECTION = 'commandOutputHover';
+    static readonly DEFAULT_PROFILE_NAME = 'Default';
+    private static readonly DEFAULT_HOVER_CACHE_TTL = 300;
+    
+    // Parsed and validated once per configuration change, so warnings are not repeated on every run
+    private config: ExtensionConfig | undefined;
+    private mappedProfiles: Map<string, CommandProfile | undefined> = new Map();
+    private readonly configChangeDisposable: vscode.Disposable;
+    
+    constructor() {
+        // Registered before any onConfigChange listener, so those already see the new configuration
+        this.configChangeDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(ConfigManager.CONFIG_SECTION)) {
+                this.config = undefined;
+                this.mappedProfiles.clear();
+            }
+        });
+    }
     
     getConfig(): ExtensionConfig {
+        if (!this.config) {
+            this.config = this.loadConfig();
+        }
+        return this.config;
+    }
+    
+    private loadConfig(): ExtensionConfig {
         const config = vscode.workspace.getConfiguration(ConfigManager.CONFIG_SECTION);
         
         const commandTemplate = config.get<string>('commandTemplate', 'echo {{input}}');
         const shellType = config.get<string>('shellType', 'bash') as ShellType;
         const timeout = config.get<number>('timeout', 30000);
+        const inputMode = config.get<string>('inputMode', 'shell') as InputMode;
+        
+        const defaultProfile: CommandProfile = {
+            name: ConfigManager.DEFAULT_PROFILE_NAME,
+            commandTemplate,
+            shellType,
+            customShell: config.get<string[]>('customShell'),
+            timeout,
+            maxOutputSize: config.get<number>('maxOutputSize', 1024 * 1024),
+            killGracePeriod: config.get<number>('killGracePeriod', 3000),
+            cacheTtl: config.get<number>('cacheTtl', 0),
+            inputMode,
+            commandArgs: config.get<string[]>('commandArgs'),
+            inputEnvVar: config.get<string>('inputEnvVar', 'COMMAND_INPUT'),
+            cwd: config.get<string>('cwd') || undefined,
+            env: config.get<Record<string, string>>('env', {}),
+            envFile: config.get<string>('envFile') || undefined,
+            showInContextMenu: false
+        };
         
         // Validate configuration
-        this.validateConfig(commandTemplate, shellType, timeout);
+        this.validateConfig(defaultProfile);
         
         return {
             commandTemplate,
             shellType,
-            timeout
+            timeout,
+            inputMode,
+            maxConcurrency: Math.max(1, config.get<number>('maxConcurrency', 4)),
+            cacheMaxEntries: Math.max(1, config.get<number>('cacheMaxEntries', 100)),
+            defaultProfile,
+            profiles: this.getProfiles(config, defaultProfile),
+            languageTemplates: config.get<Record<string, TemplateMapping>>('languageTemplates', {}),
+            fileTemplates: config.get<Record<string, TemplateMapping>>('fileTemplates', {}),
+            hoverPatterns: config.get<HoverPatternConfig[]>('hoverPatterns', []),
+            hoverDelay: Math.max(0, config.get<number>('hoverDelay', 300)),
+            decorations: config.get<string>('decorations', DecorationMode.FirstLine) as DecorationMode,
+            outputRetention: Math.max(0, config.get<number>('outputRetention', 60)),
+            maxOutputsPerDocument: Math.max(1, config.get<number>('maxOutputsPerDocument', 100)),
+            historySize: Math.max(1, config.get<number>('historySize', 5)),
+            outputPanelRuns: Math.max(1, config.get<number>('outputPanelRuns', 10))
         };
     }
     
+    getProfile(name: string): CommandProfile | undefined {
+        return this.getConfig().profiles.find(profile => profile.name === name);
+    }
+    
+    /**
+     * Returns the profile mapped to the document by fileTemplates or languageTemplates,
+     * or undefined when no mapping applies. File patterns take precedence over languages.
+     */
+    getProfileForDocument(document: vscode.TextDocument): CommandProfile | undefined {
+        const config = this.getConfig();
+        
+        for (const [pattern, mapping] of Object.entries(config.fileTemplates)) {
+            if (vscode.languages.match({ pattern }, document) > 0) {
+                return this.resolveMapping(config, mapping, `file pattern ${pattern}`);
+            }
+        }
+        
+        const mapping = config.languageTemplates[document.languageId];
+        if (mapping !== undefined) {
+            return this.resolveMapping(config, mapping, `language ${document.languageId}`);
+        }
+        
+        return undefined;
+    }
+    
+    /**
+     * Compiles the hoverPatterns setting, skipping entries with an invalid regex,
+     * an unknown profile or prompts that cannot be answered from a hover.
+     */
+    getHoverPatterns(config: ExtensionConfig = this.getConfig()): HoverPattern[] {
+        const patterns: HoverPattern[] = [];
+        
+        for (const raw of config.hoverPatterns) {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(raw.pattern);
+            } catch (error) {
+                vscode.window.showWarningMessage(`Invalid hover pattern ${raw.pattern}: ${error}`);
+                continue;
+            }
+            
+            // Word ranges cannot be empty, so VS Code rejects patterns that match nothing
+            if (regex.test('')) {
+                vscode.window.showWarningMessage(`Hover pattern ${raw.pattern} matches empty text and is ignored.`);
+                continue;
+            }
+            
+            const description = `hover pattern ${raw.pattern}`;
+            const profile = this.resolveMapping(config, raw.profile ? { profile: raw.profile } : raw.commandTemplate ?? '', description);
+            if (!profile) {
+                continue;
+            }
+            
+            if (getPlaceholderNames(getProfileTemplates(profile)).some(isPromptPlaceholder)) {
+                vscode.window.showWarningMessage(`Profile ${profile.name} asks for input and cannot run from ${description}.`);
+                continue;
+            }
+            
+            patterns.push({
+                regex,
+                profile,
+                cacheTtl: raw.cacheTtl ?? (profile.cacheTtl > 0 ? profile.cacheTtl : ConfigManager.DEFAULT_HOVER_CACHE_TTL)
+            });
+        }
+        
+        return patterns;
+    }
+    
     onConfigChange(callback: (config: ExtensionConfig) => void): vscode.Disposable {
         return vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration(ConfigManager.CONFIG_SECTION)) {
@@ -39,17 +234,137 @@ export class ConfigManager {
         });
     }
     
-    private validateConfig(commandTemplate: string, shellType: string, timeout: number): void {
-        if (!commandTemplate.includes('{{input}}')) {
+    private resolveMapping(config: ExtensionConfig, mapping: TemplateMapping, description: string): CommandProfile | undefined {
+        if (!this.mappedProfiles.has(description)) {
+            this.mappedProfiles.set(description, this.createMappedProfile(config, mapping, description));
+        }
+        return this.mappedProfiles.get(description);
+    }
+    
+    private createMappedProfile(config: ExtensionConfig, mapping: TemplateMapping, description: string): CommandProfile | undefined {
+        if (typeof mapping === 'object' && mapping !== null) {
+            const profile = config.profiles.find(candidate => candidate.name === mapping.profile);
+            if (!profile) {
+                vscode.window.showWarningMessage(
+                    `Command profile not found for ${description}: ${mapping.profile}`
+                );
+                return undefined;
+            }
+            return { ...profile, mapping: description };
+        }
+        
+        if (typeof mapping !== 'string' || mapping.length === 0) {
+            vscode.window.showWarningMessage(
+                `Ignoring invalid command template mapping for ${description}.`
+            );
+            return undefined;
+        }
+        
+        // Mapped templates inherit every other setting from the global configuration
+        const { defaultProfile } = config;
+        const profile: CommandProfile = {
+            ...defaultProfile,
+            name: description,
+            commandTemplate: mapping,
+            commandArgs: undefined,
+            inputMode: defaultProfile.inputMode === InputMode.Argv ? InputMode.Shell : defaultProfile.inputMode,
+            mapping: description
+        };
+        
+        this.validateConfig(profile);
+        return profile;
+    }
+    
+    private getProfiles(config: vscode.WorkspaceConfiguration, defaultProfile: CommandProfile): CommandProfile[] {
+        const rawProfiles = config.get<Partial<CommandProfile>[]>('commandProfiles', []);
+        const profiles: CommandProfile[] = [];
+        
+        for (const raw of rawProfiles) {
+            if (!raw || !raw.name || (!raw.commandTemplate && !raw.commandArgs?.length)) {
+                vscode.window.showWarningMessage(
+                    'Ignoring command profile without a name, commandTemplate or commandArgs.'
+                );
+                continue;
+            }
+            
+            if (profiles.some(profile => profile.name === raw.name)) {
+                vscode.window.showWarningMessage(
+                    `Duplicate command profile name: ${raw.name}. Only the first one is used.`
+                );
+                continue;
+            }
+            
+            const profile: CommandProfile = {
+                name: raw.name,
+                commandTemplate: raw.commandTemplate ?? raw.commandArgs!.join(' '),
+                shellType: raw.shellType ?? defaultProfile.shellType,
+                customShell: raw.customShell ?? defaultProfile.customShell,
+                timeout: raw.timeout ?? defaultProfile.timeout,
+                maxOutputSize: raw.maxOutputSize ?? defaultProfile.maxOutputSize,
+                killGracePeriod: defaultProfile.killGracePeriod,
+                cacheTtl: raw.cacheTtl ?? defaultProfile.cacheTtl,
+                inputMode: raw.inputMode ?? (raw.commandTemplate ? defaultProfile.inputMode : InputMode.Argv),
+                commandArgs: raw.commandArgs,
+                inputEnvVar: raw.inputEnvVar ?? defaultProfile.inputEnvVar,
+                cwd: raw.cwd || defaultProfile.cwd,
+                env: { ...defaultProfile.env, ...raw.env },
+                envFile: raw.envFile || defaultProfile.envFile,
+                showInContextMenu: raw.showInContextMenu ?? false
+            };
+            
+            this.validateConfig(profile);
+            profiles.push(profile);
+        }
+        
+        // Fall back to the global template when no profiles are configured
+        if (profiles.length === 0) {
+            profiles.push(defaultProfile);
+        }
+        
+        return profiles;
+    }
+    
+    dispose(): void {
+        this.configChangeDisposable.dispose();
+    }
+    
+    private validateConfig(profile: CommandProfile): void {
+        const { commandTemplate, shellType, timeout, inputMode } = profile;
+        
+        if (inputMode === InputMode.Argv) {
+            if (!profile.commandArgs || profile.commandArgs.length === 0) {
+                vscode.window.showWarningMessage(
+                    `Profile ${profile.name} uses argv input mode but has no commandArgs.`
+                );
+            }
+        } else if (inputMode !== InputMode.Stdin && !commandTemplate.includes('{{input}}')) {
             vscode.window.showWarningMessage(
                 'Command template does not contain {{input}} placeholder. Using default template.'
             );
         }
         
-        if (shellType !== ShellType.Bash && shellType !== ShellType.PowerShell) {
+        const unknownPlaceholders = getPlaceholderNames(getProfileTemplates(profile))
+            .filter(name => !isKnownPlaceholder(name));
+        if (unknownPlaceholders.length > 0) {
+            vscode.window.showWarningMessage(
+                `Profile ${profile.name} uses unknown placeholders: ${unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}`
+            );
+        }
+        
+        if (!Object.values(InputMode).includes(inputMode)) {
+            vscode.window.showWarningMessage(
+                `Invalid input mode: ${inputMode}. Using default (shell).`
+            );
+        }
+        
+        if (!Object.values(ShellType).includes(shellType)) {
             vscode.window.showWarningMessage(
                 `Invalid shell type: ${shellType}. Using default (bash).`
             );
+        } else if (shellType === ShellType.Custom && inputMode !== InputMode.Argv && !profile.customShell?.length) {
+            vscode.window.showWarningMessage(
+                `Profile ${profile.name} uses a custom shell but customShell is not set, e.g. ["nu", "-c"].`
+            );
         }
         
         if (timeout <= 0 || timeout > 300000) {
@@ -57,5 +372,11 @@ export class ConfigManager {
                 `Invalid timeout: ${timeout}ms. Using default (30000ms).`
             );
         }
+        
+        if (profile.maxOutputSize <= 0) {
+            vscode.window.showWarningMessage(
+                `Invalid maxOutputSize: ${profile.maxOutputSize} bytes. Output will be empty.`
+            );
+        }
     }
 }
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandProfile } from './configManager';
+import { getWorkspaceFolder } from './templateVariables';
+
+const VARIABLE_PATTERN = /\$\{([^{}]+)\}/g;
+
+export class EnvironmentResolver {
+    
+    /**
+     * Returns a copy of the profile with its working directory and environment
+     * resolved for the given document: ${...} variables are expanded, the cwd
+     * defaults to the document's workspace folder and the envFile is loaded.
+     */
+    async resolve(profile: CommandProfile, document: vscode.TextDocument): Promise<CommandProfile> {
+        const workspaceFolder = getWorkspaceFolder(document);
+        const expand = (value: string) => this.expandVariables(value, document, workspaceFolder);
+        
+        const fileEnv = profile.envFile
+            ? await this.loadEnvFile(this.resolvePath(expand(profile.envFile), workspaceFolder))
+            : {};
+        
+        const env: Record<string, string> = { ...fileEnv };
+        for (const [name, value] of Object.entries(profile.env ?? {})) {
+            env[name] = expand(value);
+        }
+        
+        return {
+            ...profile,
+            cwd: this.resolveWorkingDirectory(profile.cwd, document, workspaceFolder, expand),
+            env
+        };
+    }
+    
+    private resolveWorkingDirectory(
+        cwd: string | undefined,
+        document: vscode.TextDocument,
+        workspaceFolder: string | undefined,
+        expand: (value: string) => string
+    ): string | undefined {
+        if (cwd) {
+            return this.resolvePath(expand(cwd), workspaceFolder);
+        }
+        
+        if (workspaceFolder) {
+            return workspaceFolder;
+        }
+        
+        // Untitled and virtual documents have no directory to fall back to
+        return document.uri.scheme === 'file' ? path.dirname(document.uri.fsPath) : undefined;
+    }
+    
+    private expandVariables(value: string, document: vscode.TextDocument, workspaceFolder: string | undefined): string {
+        return value.replace(VARIABLE_PATTERN, (match, name: string) => {
+            if (name.startsWith('env:')) {
+                return process.env[name.substring('env:'.length)] ?? '';
+            }
+            
+            switch (name) {
+                case 'workspaceFolder':
+                    return workspaceFolder ?? '';
+                case 'file':
+                    return document.uri.fsPath;
+                case 'fileDirname':
+                    return path.dirname(document.uri.fsPath);
+                case 'userHome':
+                    return os.homedir();
+                default:
+                    return match;
+            }
+        });
+    }
+    
+    private resolvePath(value: string, workspaceFolder: string | undefined): string {
+        if (value === '~' || value.startsWith('~/')) {
+            value = path.join(os.homedir(), value.substring(1));
+        }
+        return path.isAbsolute(value) || !workspaceFolder ? value : path.join(workspaceFolder, value);
+    }
+    
+    private async loadEnvFile(filePath: string): Promise<Record<string, string>> {
+        try {
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            return this.parseEnvFile(content);
+        } catch (error) {
+            vscode.window.showWarningMessage(`Could not read env file ${filePath}: ${error}`);
+            return {};
+        }
+    }
+    
+    private parseEnvFile(content: string): Record<string, string> {
+        const env: Record<string, string> = {};
+        
+        for (const line of content.split(/\r?\n/)) {
+            const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*?)\s*$/);
+            if (!match) {
+                // Blank lines, comments and anything else that is not KEY=VALUE
+                continue;
+            }
+            
+            const [, name, rawValue] = match;
+            let value = rawValue;
+            
+            if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+                value = value.slice(1, -1).replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+            } else if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+                value = value.slice(1, -1);
+            } else {
+                // Strip trailing comments from unquoted values
+                value = value.replace(/\s+#.*$/, '');
+            }
+            
+            env[name] = value;
+        }
+        
+        return env;
+    }
+}
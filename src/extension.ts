@@ -1,23 +1,85 @@
 import * as vscode from 'vscode';
-import { ConfigManager } from './configManager';
-import { CommandExecutor } from './commandExecutor';
-import { HoverManager } from './hoverManager';
+import { CommandProfile, ConfigManager } from './configManager';
+import { CommandExecutor, CommandResult, formatDuration } from './commandExecutor';
+import { HoverManager, OutputRun, StoredOutput } from './hoverManager';
 import { JsonPoster } from './jsonPoster';
 import { JsonEditorProvider } from './jsonEditorProvider';
+import { EnvironmentResolver } from './environmentResolver';
+import { ResultCache } from './resultCache';
+import { LazyHoverRunner } from './lazyHoverRunner';
+import { OutputDecorator } from './outputDecorator';
+import { RunDocumentProvider } from './runDocumentProvider';
+import { OutputDocumentProvider } from './outputDocumentProvider';
+import { OutputTreeElement, OutputTreeProvider } from './outputTreeProvider';
+import { ExportFormat, OutputExporter } from './outputExporter';
+import { OutputAction, OutputApplier, OutputPlacement } from './outputApplier';
+import { resolveWorkspaceFile } from './outputRenderer';
+import { OutputPanel } from './outputPanel';
+import { MIN_WATCH_INTERVAL_SECONDS, Watch, WatchManager, WatchTrigger } from './watchManager';
+import { WatchTreeProvider } from './watchTreeProvider';
+import { getPromptValues, TemplateVariableResolver } from './templateVariables';
 
 let configManager: ConfigManager;
 let commandExecutor: CommandExecutor;
 let hoverManager: HoverManager;
 let jsonPoster: JsonPoster;
+let templateVariableResolver: TemplateVariableResolver;
+let environmentResolver: EnvironmentResolver;
+let resultCache: ResultCache;
+let outputApplier: OutputApplier;
+let runDocumentProvider: RunDocumentProvider;
+let outputExporter: OutputExporter;
+let outputPanel: OutputPanel;
+let outputDocumentProvider: OutputDocumentProvider;
+let watchManager: WatchManager;
+let extensionContext: vscode.ExtensionContext;
+let outputChannel: vscode.OutputChannel;
+
+const LAST_PROFILE_KEY = 'commandOutputHover.lastProfile';
+
+const APPLY_COMMANDS: Record<string, OutputAction> = {
+    'commandOutputHover.executeAndReplace': 'replace',
+    'commandOutputHover.executeAndInsertBelow': 'insertBelow',
+    'commandOutputHover.executeAndInsertComment': 'insertComment'
+};
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Command Output Hover extension is now active');
     
+    extensionContext = context;
+    
     // Initialize managers
     configManager = new ConfigManager();
     commandExecutor = new CommandExecutor();
-    hoverManager = new HoverManager();
     jsonPoster = new JsonPoster();
+    templateVariableResolver = new TemplateVariableResolver(context.globalState);
+    environmentResolver = new EnvironmentResolver();
+    resultCache = new ResultCache();
+    const lazyHoverRunner = new LazyHoverRunner(
+        configManager,
+        commandExecutor,
+        environmentResolver,
+        templateVariableResolver,
+        resultCache
+    );
+    hoverManager = new HoverManager(configManager, context.workspaceState, lazyHoverRunner);
+    const outputDecorator = new OutputDecorator(hoverManager, configManager);
+    const outputTreeProvider = new OutputTreeProvider(hoverManager);
+    outputApplier = new OutputApplier();
+    runDocumentProvider = new RunDocumentProvider();
+    outputExporter = new OutputExporter();
+    outputPanel = new OutputPanel();
+    outputDocumentProvider = new OutputDocumentProvider(hoverManager);
+    watchManager = new WatchManager(
+        configManager,
+        commandExecutor,
+        environmentResolver,
+        templateVariableResolver,
+        hoverManager,
+        context.workspaceState
+    );
+    const watchTreeProvider = new WatchTreeProvider(watchManager);
+    outputChannel = vscode.window.createOutputChannel('Command Output Hover');
     
     // Register custom JSON editor
     context.subscriptions.push(JsonEditorProvider.register(context));
@@ -33,10 +95,12 @@ export function activate(context: vscode.ExtensionContext) {
         await vscode.commands.executeCommand('vscode.openWith', editor.document.uri, 'commandOutputHover.jsonEditor');
     });
     
-    // Register command to show full output
-    const showFullOutputDisposable = vscode.commands.registerCommand('commandOutputHover.showFullOutput', (args) => {
-        const { output, isError } = JSON.parse(args);
-        showOutputPopup(output, isError);
+    // Register hover action to focus the output panel on an output
+    const showFullOutputDisposable = vscode.commands.registerCommand('commandOutputHover.showFullOutput', (args: OutputReference) => {
+        const found = findOutputById(args.id);
+        if (found) {
+            showInOutputPanel(hoverManager.getSelectedRun(found.stored), found.stored.id);
+        }
     });
     
     // Register command to post JSON to URL with prompt
@@ -73,37 +137,185 @@ export function activate(context: vscode.ExtensionContext) {
         await postJsonToRemoteUrl(editor, false);
     });
     
-    // Register command
-    const commandDisposable = vscode.commands.registerCommand('commandOutputHover.executeCommand', async () => {
-        const editor = vscode.window.activeTextEditor;
+    // Register command; keybindings may pass { "profile": "<name>" } to skip the quick pick
+    // and { "fresh": true } to bypass the result cache
+    const commandDisposable = vscode.commands.registerCommand('commandOutputHover.executeCommand', async (args?: { profile?: string; fresh?: boolean }) => {
+        const target = getExecutionTarget();
+        if (!target) {
+            return;
+        }
         
-        if (!editor) {
+        const profile = await resolveRunProfile(target.editor, args?.profile);
+        if (profile) {
+            await executeCommandWithProgress(target.editor, target.selections, profile, { fresh: args?.fresh });
+        }
+    });
+    
+    // Register execute-and-apply commands, which write each output back at its own selection
+    const applyCommandDisposables = Object.entries(APPLY_COMMANDS).map(([command, action]) =>
+        vscode.commands.registerCommand(command, async (args?: { profile?: string }) => {
+            const target = getExecutionTarget();
+            if (!target) {
+                return;
+            }
+            
+            const profile = await resolveRunProfile(target.editor, args?.profile);
+            if (profile) {
+                await executeCommandWithProgress(target.editor, target.selections, profile, { action });
+            }
+        })
+    );
+    
+    // Register hover action to apply a stored output to the document
+    const applyOutputDisposable = vscode.commands.registerCommand('commandOutputHover.applyOutput', async (args: OutputReference & { action: OutputAction }) => {
+        const located = await locateOutput(args.id);
+        if (located) {
+            const output = hoverManager.getSelectedRun(located.stored).result.stdout;
+            await applyOutputs(located.document, [{ range: located.stored.range, output }], args.action);
+        }
+    });
+    
+    // Register hover action to step through the earlier runs on a range
+    const showRunDisposable = vscode.commands.registerCommand('commandOutputHover.showRun', async (args: OutputReference & { index: number }) => {
+        await showRun(args.id, args.index);
+    });
+    
+    // Register command to diff two runs on a range; without indexes it asks which runs to compare
+    const compareRunsDisposable = vscode.commands.registerCommand('commandOutputHover.compareRuns', async (args: OutputReference & { left?: number; right?: number }) => {
+        await compareRuns(args.id, args.left, args.right);
+    });
+    
+    // Register command behind file location links in command output
+    const openLocationDisposable = vscode.commands.registerCommand('commandOutputHover.openLocation', async (args: { path: string; line: number; column?: number }) => {
+        await openFileLocation(args.path, args.line, args.column);
+    });
+    
+    // Register hover actions to rerun, open or clear a stored output
+    const rerunHoverOutputDisposable = vscode.commands.registerCommand('commandOutputHover.rerunOutput', async (args: OutputReference) => {
+        await rerunOutput(args.id);
+    });
+    
+    // Without arguments it opens the output at the cursor
+    const openOutputDisposable = vscode.commands.registerCommand('commandOutputHover.openOutput', async (args?: OutputReference) => {
+        const stored = args ? findOutputById(args.id)?.stored : findOutputAtCursor();
+        if (stored) {
+            await openOutputInEditor(stored);
+        }
+    });
+    
+    const clearOutputDisposable = vscode.commands.registerCommand('commandOutputHover.clearOutput', (args: OutputReference) => {
+        const found = findOutputById(args.id);
+        if (found) {
+            hoverManager.clearOutput(found.uri, found.stored.range);
+        }
+    });
+    
+    // Register the Command Outputs view and its item actions
+    const outputTreeView = vscode.window.createTreeView('commandOutputHover.outputs', {
+        treeDataProvider: outputTreeProvider
+    });
+    
+    const revealOutputDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.reveal', async (element: OutputTreeElement) => {
+        await revealTreeElement(element);
+    });
+    
+    const rerunOutputDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.rerun', async (element: OutputTreeElement) => {
+        if (element.kind !== 'document') {
+            await rerunOutput(element.output.id);
+        }
+    });
+    
+    const copyTreeOutputDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.copy', async (element: OutputTreeElement) => {
+        const run = getTreeElementRun(element);
+        if (run) {
+            await vscode.env.clipboard.writeText(run.result.stdout);
+            vscode.window.setStatusBarMessage('Command output copied to clipboard', 3000);
+        }
+    });
+    
+    const openTreeOutputDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.openFull', (element: OutputTreeElement) => {
+        const run = getTreeElementRun(element);
+        if (run && element.kind !== 'document') {
+            showInOutputPanel(run, element.output.id);
+        }
+    });
+    
+    const openTreeOutputInEditorDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.openInEditor', async (element: OutputTreeElement) => {
+        const run = getTreeElementRun(element);
+        if (run && element.kind !== 'document') {
+            await openOutputInEditor(element.output, run);
+        }
+    });
+    
+    const deleteTreeOutputDisposable = vscode.commands.registerCommand('commandOutputHover.outputs.delete', (element: OutputTreeElement) => {
+        if (element.kind === 'output') {
+            hoverManager.clearOutput(element.uri, element.output.range);
+        }
+    });
+    
+    // Register commands to clear outputs of one document (the active one unless invoked from the view) or all documents
+    const clearDocumentOutputsDisposable = vscode.commands.registerCommand('commandOutputHover.clearDocumentOutputs', (element?: OutputTreeElement) => {
+        const uri = element?.uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!uri) {
             vscode.window.showErrorMessage('No active editor found');
             return;
         }
+        hoverManager.clearDocument(uri);
+    });
+    
+    const clearAllOutputsDisposable = vscode.commands.registerCommand('commandOutputHover.clearAllOutputs', async () => {
+        const answer = await vscode.window.showWarningMessage('Clear the command outputs of all documents?', { modal: true }, 'Clear All');
+        if (answer === 'Clear All') {
+            hoverManager.clearAll();
+        }
+    });
+    
+    // Register command to export stored outputs as a report
+    const exportOutputsDisposable = vscode.commands.registerCommand('commandOutputHover.exportOutputs', async () => {
+        await exportOutputs();
+    });
+    
+    // Register command to copy stored output, either from a hover link or at each cursor
+    const copyOutputDisposable = vscode.commands.registerCommand('commandOutputHover.copyOutput', async (args?: OutputReference) => {
+        await copyOutput(args?.id);
+    });
+    
+    // Register context menu command, limited to profiles marked with showInContextMenu
+    const contextMenuCommandDisposable = vscode.commands.registerCommand('commandOutputHover.executeContextMenuProfile', async () => {
+        const target = getExecutionTarget();
+        if (!target) {
+            return;
+        }
         
-        let selection = editor.selection;
-        let selectedText = editor.document.getText(selection);
+        const profiles = configManager.getConfig().profiles.filter(profile => profile.showInContextMenu);
+        const profile = await pickProfile(profiles);
         
-        // If no text is selected, get the word under the cursor
-        if (!selectedText || selectedText.trim().length === 0) {
-            const position = editor.selection.active;
-            const wordRange = editor.document.getWordRangeAtPosition(position);
-            
-            if (wordRange) {
-                selectedText = editor.document.getText(wordRange);
-                selection = new vscode.Selection(wordRange.start, wordRange.end);
-            } else {
-                vscode.window.showErrorMessage('No text selected and no word found under cursor');
-                return;
-            }
+        if (profile) {
+            await executeCommandWithProgress(target.editor, target.selections, profile);
+        }
+    });
+    
+    // Register command to re-run the last used profile without prompting
+    const lastProfileCommandDisposable = vscode.commands.registerCommand('commandOutputHover.executeLastProfile', async () => {
+        const target = getExecutionTarget();
+        if (!target) {
+            return;
         }
         
-        // Get configuration
-        const config = configManager.getConfig();
+        const lastProfile = extensionContext.globalState.get<string>(LAST_PROFILE_KEY);
+        const profile = lastProfile
+            ? resolveProfileByName(lastProfile)
+            : await pickProfile(configManager.getConfig().profiles);
         
-        // Execute command with progress feedback
-        await executeCommandWithProgress(editor, selection, selectedText, config);
+        if (profile) {
+            await executeCommandWithProgress(target.editor, target.selections, profile);
+        }
+    });
+    
+    // Register command to clear cached results
+    const clearCacheDisposable = vscode.commands.registerCommand('commandOutputHover.clearCache', () => {
+        const count = resultCache.clear();
+        vscode.window.showInformationMessage(`Cleared ${count} cached command result${count === 1 ? '' : 's'}`);
     });
     
     // Register hover provider for all document types
@@ -115,21 +327,85 @@ export function activate(context: vscode.ExtensionContext) {
     // Set up configuration change listener
     const configChangeDisposable = configManager.onConfigChange((newConfig) => {
         console.log('Configuration changed:', newConfig);
+        updateProfileContext(newConfig.profiles);
     });
+    updateProfileContext(configManager.getConfig().profiles);
     
     // Set up document close listener
     const docCloseDisposable = vscode.workspace.onDidCloseTextDocument((document) => {
         hoverManager.onDocumentClosed(document);
+        runDocumentProvider.onDocumentClosed(document);
+        outputDocumentProvider.onDocumentClosed(document);
+    });
+    
+    // Register the watch command and the Watched Commands view with its item actions
+    const watchSelectionDisposable = vscode.commands.registerCommand('commandOutputHover.watchSelection', async () => {
+        await watchSelection();
+    });
+    
+    const watchTreeView = vscode.window.createTreeView('commandOutputHover.watches', {
+        treeDataProvider: watchTreeProvider
     });
     
+    const watchDisposables = [
+        vscode.commands.registerCommand('commandOutputHover.watches.reveal', async (watch: Watch) => {
+            await revealOutput(watch.outputId);
+        }),
+        vscode.commands.registerCommand('commandOutputHover.watches.pause', (watch: Watch) => {
+            watchManager.setPaused(watch.outputId, true);
+        }),
+        vscode.commands.registerCommand('commandOutputHover.watches.resume', (watch: Watch) => {
+            watchManager.setPaused(watch.outputId, false);
+        }),
+        vscode.commands.registerCommand('commandOutputHover.watches.remove', (watch: Watch) => {
+            watchManager.removeWatch(watch.outputId);
+        })
+    ];
+    
     // Set up document change listener
     const docChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
-        hoverManager.onDocumentChanged(event.document);
+        hoverManager.onDocumentChanged(event);
     });
     
     // Add all disposables to subscriptions
     context.subscriptions.push(
+        configManager,
+        outputChannel,
+        outputPanel,
+        lazyHoverRunner,
+        outputDecorator,
         commandDisposable,
+        contextMenuCommandDisposable,
+        lastProfileCommandDisposable,
+        ...applyCommandDisposables,
+        applyOutputDisposable,
+        copyOutputDisposable,
+        outputTreeProvider,
+        outputTreeView,
+        revealOutputDisposable,
+        rerunOutputDisposable,
+        copyTreeOutputDisposable,
+        openTreeOutputDisposable,
+        openTreeOutputInEditorDisposable,
+        deleteTreeOutputDisposable,
+        clearDocumentOutputsDisposable,
+        clearAllOutputsDisposable,
+        exportOutputsDisposable,
+        showRunDisposable,
+        compareRunsDisposable,
+        rerunHoverOutputDisposable,
+        openLocationDisposable,
+        openOutputDisposable,
+        clearOutputDisposable,
+        watchManager,
+        watchTreeProvider,
+        watchTreeView,
+        watchSelectionDisposable,
+        ...watchDisposables,
+        vscode.workspace.registerTextDocumentContentProvider(RunDocumentProvider.SCHEME, runDocumentProvider),
+        outputDocumentProvider,
+        vscode.workspace.registerTextDocumentContentProvider(OutputDocumentProvider.SCHEME, outputDocumentProvider),
+        clearCacheDisposable,
         showFullOutputDisposable,
         openJsonEditorDisposable,
         postJsonDisposable,
@@ -141,133 +417,685 @@ export function activate(context: vscode.ExtensionContext) {
     );
 }
 
+// Hover links refer to stored outputs by ID
+interface OutputReference {
+    id: string;
+}
+
+interface RunOptions {
+    // Bypass the result cache
+    fresh?: boolean;
+    // Write successful outputs back into the document instead of showing them
+    action?: OutputAction;
+}
+
+interface SelectionTarget {
+    selection: vscode.Selection;
+    selectedText: string;
+}
+
+interface ExecutionTarget {
+    editor: vscode.TextEditor;
+    selections: SelectionTarget[];
+}
+
+interface CompletedRun {
+    input: string;
+    range: vscode.Range;
+    result: CommandResult;
+    stored: StoredOutput;
+}
+
+function getExecutionTarget(): ExecutionTarget | undefined {
+    const editor = vscode.window.activeTextEditor;
+    
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor found');
+        return undefined;
+    }
+    
+    const selections: SelectionTarget[] = [];
+    
+    for (const editorSelection of editor.selections) {
+        let selection = editorSelection;
+        let selectedText = editor.document.getText(selection);
+        
+        // If no text is selected, get the word under the cursor
+        if (!selectedText || selectedText.trim().length === 0) {
+            const wordRange = editor.document.getWordRangeAtPosition(selection.active);
+            if (!wordRange) {
+                continue;
+            }
+            selectedText = editor.document.getText(wordRange);
+            selection = new vscode.Selection(wordRange.start, wordRange.end);
+        }
+        
+        // Several cursors in the same word resolve to the same range
+        if (!selections.some(target => target.selection.isEqual(selection))) {
+            selections.push({ selection, selectedText });
+        }
+    }
+    
+    if (selections.length === 0) {
+        vscode.window.showErrorMessage('No text selected and no word found under cursor');
+        return undefined;
+    }
+    
+    // Run and report in document order
+    selections.sort((a, b) => a.selection.start.compareTo(b.selection.start));
+    
+    return { editor, selections };
+}
+
+async function resolveRunProfile(editor: vscode.TextEditor, profileName?: string): Promise<CommandProfile | undefined> {
+    // An explicit profile wins over a language or file pattern mapping
+    if (profileName) {
+        return resolveProfileByName(profileName);
+    }
+    
+    return configManager.getProfileForDocument(editor.document)
+        ?? await pickProfile(configManager.getConfig().profiles);
+}
+
+async function pickProfile(profiles: CommandProfile[]): Promise<CommandProfile | undefined> {
+    if (profiles.length === 0) {
+        vscode.window.showErrorMessage('No command profiles available');
+        return undefined;
+    }
+    
+    if (profiles.length === 1) {
+        return profiles[0];
+    }
+    
+    // Offer the last used profile first
+    const lastProfile = extensionContext.globalState.get<string>(LAST_PROFILE_KEY);
+    const sorted = [...profiles].sort((a, b) => Number(b.name === lastProfile) - Number(a.name === lastProfile));
+    
+    const picked = await vscode.window.showQuickPick(
+        sorted.map(profile => ({
+            label: profile.name,
+            description: profile.name === lastProfile ? 'last used' : undefined,
+            detail: `${profile.shellType}: ${profile.commandTemplate}`,
+            profile
+        })),
+        { placeHolder: 'Select a command profile to run' }
+    );
+    
+    return picked?.profile;
+}
+
+function resolveProfileByName(name: string): CommandProfile | undefined {
+    const profile = configManager.getProfile(name);
+    
+    if (!profile) {
+        vscode.window.showErrorMessage(`Command profile not found: ${name}`);
+    }
+    
+    return profile;
+}
+
+function updateProfileContext(profiles: CommandProfile[]): void {
+    vscode.commands.executeCommand(
+        'setContext',
+        'commandOutputHover.hasContextMenuProfiles',
+        profiles.some(profile => profile.showInContextMenu)
+    );
+}
+
 async function executeCommandWithProgress(
     editor: vscode.TextEditor,
-    selection: vscode.Selection,
-    selectedText: string,
-    config: any
+    selections: SelectionTarget[],
+    profile: CommandProfile,
+    options: RunOptions = {}
 ): Promise<void> {
+    // Mapped profiles depend on the document, so they are not remembered as the last profile
+    if (!profile.mapping) {
+        await extensionContext.globalState.update(LAST_PROFILE_KEY, profile.name);
+    }
+    
+    // Resolve prompts up front, since they must be answered before any command starts
+    const prompts = await templateVariableResolver.resolvePrompts(profile);
+    if (!prompts) {
+        return;
+    }
+    
+    const { maxConcurrency, cacheMaxEntries } = configManager.getConfig();
+    const total = selections.length;
+    const documentVersion = editor.document.version;
+    
     await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
-        title: "Executing command...",
-        cancellable: false
-    }, async () => {
+        title: `Executing ${profile.name}...`,
+        cancellable: true
+    }, async (progress, token) => {
+        const abortController = new AbortController();
+        const cancelDisposable = token.onCancellationRequested(() => abortController.abort());
+        
         try {
-            // Build the actual command that will be executed
-            const actualCommand = config.commandTemplate.replace(/\{\{input\}\}/g, selectedText);
+            // Resolve the working directory and environment for the active document
+            const resolvedProfile = await environmentResolver.resolve(profile, editor.document);
             
-            // Execute command
-            const result = await commandExecutor.execute(
-                selectedText,
-                config.commandTemplate,
-                config.shellType,
-                config.timeout
-            );
+            // Stream output live for a single run; concurrent runs are written out as each one finishes
+            const streamOutput = total === 1;
+            const runs: CompletedRun[] = new Array(total);
+            let done = 0;
             
-            // Handle result and store for hover
-            handleExecutionResult(editor, selection, result, actualCommand, selectedText);
+            outputChannel.show(true);
+            if (total > 1) {
+                progress.report({ message: `0/${total} done` });
+            }
+            
+            await runWithConcurrency(selections, maxConcurrency, async ({ selection, selectedText }, index) => {
+                // Selections that had not started when the user cancelled keep their previous output
+                if (abortController.signal.aborted) {
+                    return;
+                }
+                
+                const variables = {
+                    ...prompts,
+                    ...await templateVariableResolver.resolveContext(profile, editor, selection)
+                };
+                if (abortController.signal.aborted) {
+                    return;
+                }
+                
+                // Build the actual command that will be executed
+                const actualCommand = commandExecutor.describeCommand(selectedText, resolvedProfile, variables);
+                const header = `[${profile.name}] ${resolvedProfile.cwd ?? ''}$ ${actualCommand}`;
+                
+                // Serve repeated runs from the cache unless a fresh run was requested
+                const cacheTtlMs = resolvedProfile.cacheTtl * 1000;
+                const cacheKey = ResultCache.createKey(actualCommand, selectedText, resolvedProfile, variables);
+                const cached = cacheTtlMs > 0 && !options.fresh ? resultCache.get(cacheKey, cacheTtlMs) : undefined;
+                
+                let result: CommandResult;
+                if (cached) {
+                    result = { ...cached.result, cachedAt: cached.timestamp };
+                    outputChannel.appendLine(`${header} [cached ${new Date(cached.timestamp).toLocaleTimeString()}]`);
+                    outputChannel.append(result.stdout + result.stderr);
+                } else {
+                    if (streamOutput) {
+                        outputChannel.appendLine(header);
+                    }
+                    
+                    // Execute command
+                    result = await commandExecutor.execute(selectedText, resolvedProfile, {
+                        onOutput: streamOutput ? (chunk) => outputChannel.append(chunk) : undefined,
+                        signal: abortController.signal,
+                        variables
+                    });
+                    
+                    if (!streamOutput) {
+                        outputChannel.appendLine(header);
+                        outputChannel.append(result.stdout + result.stderr);
+                    }
+                    
+                    if (cacheTtlMs > 0 && result.success && !result.truncated) {
+                        resultCache.set(cacheKey, result, cacheMaxEntries);
+                    }
+                }
+                outputChannel.appendLine(formatResultSummary(result));
+                
+                // Store each result for hover on its own range, including partial output of cancelled and failed runs
+                const range = new vscode.Range(selection.start, selection.end);
+                const stored = hoverManager.storeOutput(editor.document, range, result, selectedText, getPromptValues(prompts));
+                
+                runs[index] = { input: selectedText, range, result, stored };
+                done++;
+                if (total > 1) {
+                    progress.report({ message: `${done}/${total} done`, increment: 100 / total });
+                }
+            });
+            
+            // Skip the selections that never started
+            const completed = runs.filter(run => run !== undefined);
+            
+            if (!options.action) {
+                showRunResults(profile, completed);
+            } else if (editor.document.version !== documentVersion) {
+                vscode.window.showErrorMessage('The document changed while the command was running, so its output was not applied');
+                showRunResults(profile, completed);
+            } else {
+                await applyRunOutputs(editor.document, profile, completed, options.action);
+            }
             
         } catch (error) {
             vscode.window.showErrorMessage(`Command execution failed: ${error}`);
+        } finally {
+            cancelDisposable.dispose();
         }
     });
 }
 
-function handleExecutionResult(
-    editor: vscode.TextEditor,
-    selection: vscode.Selection,
-    result: any,
-    command: string,
-    input: string
-): void {
-    const range = new vscode.Range(selection.start, selection.end);
-    
-    if (result.success) {
-        // Store successful output
-        hoverManager.storeOutput(editor.document, range, result.output, command, input);
-        
-        // Show output in a popup immediately
-        showOutputPopup(result.output, false);
-    } else {
-        // Store error output for debugging
-        const errorOutput = result.error || 'Unknown error';
-        hoverManager.storeOutput(editor.document, range, `Error: ${errorOutput}`, command, input);
-        
-        // Show error in popup
-        showOutputPopup(errorOutput, true);
+async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+    let next = 0;
+    
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    });
+    
+    await Promise.all(runners);
+}
+
+function formatResultSummary(result: CommandResult): string {
+    const status = result.cancelled ? '[cancelled]' : result.success ? '[done]' : `[failed] ${result.error ?? ''}`;
+    const details = [
+        `exit code: ${result.exitCode ?? '-'}`,
+        result.signal ? `signal: ${result.signal}` : '',
+        formatDuration(result.durationMs),
+        result.truncated ? 'output truncated' : ''
+    ].filter(detail => detail.length > 0);
+    
+    return `${status} (${details.join(', ')})`;
+}
+
+async function applyRunOutputs(
+    document: vscode.TextDocument,
+    profile: CommandProfile,
+    runs: CompletedRun[],
+    action: OutputAction
+): Promise<void> {
+    const placements = runs
+        .filter(run => run.result.success)
+        .map(run => ({ range: run.range, output: run.result.stdout }));
+    
+    if (placements.length > 0) {
+        await applyOutputs(document, placements, action);
+    }
+    
+    // Failed and cancelled runs leave their selection untouched; show what went wrong
+    const unapplied = runs.filter(run => !run.result.success);
+    if (unapplied.length > 0) {
+        showRunResults(profile, unapplied);
     }
 }
 
-function showOutputPopup(output: string, isError: boolean): void {
-    // Limit output length for the popup
-    const maxLength = 500;
-    let displayOutput = output;
-    let truncated = false;
+async function applyOutputs(document: vscode.TextDocument, placements: OutputPlacement[], action: OutputAction): Promise<void> {
+    try {
+        const applied = await outputApplier.apply(document, placements, action);
+        if (applied === 0) {
+            vscode.window.showInformationMessage('The command produced no output to apply');
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not apply command output: ${error}`);
+    }
+}
+
+function findOutputById(id: string): { uri: vscode.Uri; stored: StoredOutput } | undefined {
+    const found = hoverManager.findOutputById(id);
+    if (!found) {
+        vscode.window.showErrorMessage('This command output is no longer available');
+    }
+    return found;
+}
+
+async function locateOutput(id: string): Promise<{ document: vscode.TextDocument; stored: StoredOutput } | undefined> {
+    const found = findOutputById(id);
+    if (!found) {
+        return undefined;
+    }
     
-    if (output.length > maxLength) {
-        displayOutput = output.substring(0, maxLength);
-        truncated = true;
+    // Opening a closed document restores its saved outputs, so look the output up again
+    const document = await vscode.workspace.openTextDocument(found.uri);
+    const restored = findOutputById(id);
+    return restored && { document, stored: restored.stored };
+}
+
+async function copyOutput(id?: string): Promise<void> {
+    const outputs: StoredOutput[] = [];
+    
+    if (id) {
+        const found = findOutputById(id);
+        if (!found) {
+            return;
+        }
+        outputs.push(found.stored);
+    } else if (vscode.window.activeTextEditor) {
+        const editor = vscode.window.activeTextEditor;
+        for (const selection of editor.selections) {
+            const stored = hoverManager.findOutput(editor.document, selection.active);
+            if (stored && !outputs.includes(stored)) {
+                outputs.push(stored);
+            }
+        }
     }
     
-    // Create a webview panel to show the output
-    const panel = vscode.window.createWebviewPanel(
-        'commandOutput',
-        isError ? 'Command Error' : 'Command Output',
-        vscode.ViewColumn.Beside,
-        {
-            enableScripts: false
+    if (outputs.length === 0) {
+        vscode.window.showInformationMessage('No command output at the cursor');
+        return;
+    }
+    
+    await vscode.env.clipboard.writeText(outputs.map(stored => hoverManager.getSelectedRun(stored).result.stdout).join('\n'));
+    vscode.window.setStatusBarMessage('Command output copied to clipboard', 3000);
+}
+
+async function showRun(id: string, index: number): Promise<void> {
+    const located = await locateOutput(id);
+    if (!located) {
+        return;
+    }
+    
+    hoverManager.selectRun(located.stored, index);
+    
+    // Hover links close the hover, so show it again for the selected run
+    const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document === located.document);
+    if (editor) {
+        if (!located.stored.range.contains(editor.selection.active)) {
+            const position = located.stored.range.start;
+            editor.selection = new vscode.Selection(position, position);
+        }
+        await vscode.commands.executeCommand('editor.action.showHover');
+    }
+}
+
+async function exportOutputs(): Promise<void> {
+    const allDocuments = hoverManager.getAllOutputs();
+    if (allDocuments.length === 0) {
+        vscode.window.showInformationMessage('There are no command outputs to export');
+        return;
+    }
+    
+    // Offer the active document only when it has outputs of its own
+    const activeUri = vscode.window.activeTextEditor?.document.uri.toString();
+    const activeDocument = allDocuments.find(({ uri }) => uri.toString() === activeUri);
+    let documents = allDocuments;
+    
+    if (activeDocument) {
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'Current Document', description: vscode.workspace.asRelativePath(activeDocument.uri), documents: [activeDocument] },
+                { label: 'All Documents', description: `${allDocuments.length} documents`, documents: allDocuments }
+            ],
+            { placeHolder: 'Select which command outputs to export' }
+        );
+        if (!scope) {
+            return;
         }
+        documents = scope.documents;
+    }
+    
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: 'Markdown', format: 'markdown' as ExportFormat, extension: 'md' },
+            { label: 'JSON', format: 'json' as ExportFormat, extension: 'json' },
+            { label: 'CSV', format: 'csv' as ExportFormat, extension: 'csv' }
+        ],
+        { placeHolder: 'Select an export format' }
     );
+    if (!picked) {
+        return;
+    }
     
-    // Set the HTML content
-    panel.webview.html = getWebviewContent(displayOutput, truncated, isError);
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `command-outputs.${picked.extension}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+        filters: { [picked.label]: [picked.extension] }
+    });
+    if (!target) {
+        return;
+    }
+    
+    const records = outputExporter.toRecords(documents);
+    
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(outputExporter.format(records, picked.format), 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export command outputs: ${error}`);
+        return;
+    }
+    
+    const answer = await vscode.window.showInformationMessage(
+        `Exported ${records.length} command output${records.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(target)}`,
+        'Open'
+    );
+    if (answer === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
+
+function getTreeElementRun(element: OutputTreeElement): OutputRun | undefined {
+    switch (element.kind) {
+        case 'output':
+            return hoverManager.getRuns(element.output)[0];
+        case 'run':
+            return element.run;
+        default:
+            return undefined;
+    }
 }
 
-function getWebviewContent(output: string, truncated: boolean, isError: boolean): string {
-    const escapedOutput = output
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
+async function revealTreeElement(element: OutputTreeElement): Promise<void> {
+    if (element.kind === 'document') {
+        await vscode.window.showTextDocument(element.uri);
+        return;
+    }
     
-    const backgroundColor = isError ? '#3d1f1f' : '#1e1e1e';
-    const textColor = isError ? '#f48771' : '#d4d4d4';
-    const title = isError ? 'Error' : 'Output';
+    await revealOutput(element.output.id, element.kind === 'run' ? element.index : undefined);
+}
+
+async function revealOutput(id: string, runIndex?: number): Promise<{ editor: vscode.TextEditor; stored: StoredOutput } | undefined> {
+    const located = await locateOutput(id);
+    if (!located) {
+        return undefined;
+    }
     
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${title}</title>
-    <style>
-        body {
-            background-color: ${backgroundColor};
-            color: ${textColor};
-            font-family: 'Courier New', monospace;
-            padding: 20px;
-            margin: 0;
+    if (runIndex !== undefined) {
+        hoverManager.selectRun(located.stored, runIndex);
+    }
+    
+    const { range } = located.stored;
+    const editor = await vscode.window.showTextDocument(located.document);
+    editor.selection = new vscode.Selection(range.start, range.end);
+    editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    return { editor, stored: located.stored };
+}
+
+async function rerunOutput(id: string): Promise<void> {
+    const revealed = await revealOutput(id);
+    if (!revealed) {
+        return;
+    }
+    
+    const { editor, stored } = revealed;
+    const selection = editor.selection;
+    const profile = resolveRerunProfile(editor.document, stored.result);
+    if (profile) {
+        await executeCommandWithProgress(
+            editor,
+            [{ selection, selectedText: editor.document.getText(selection) }],
+            profile,
+            { fresh: true }
+        );
+    }
+}
+
+async function watchSelection(): Promise<void> {
+    const target = getExecutionTarget();
+    if (!target) {
+        return;
+    }
+    
+    const profile = await resolveRunProfile(target.editor);
+    if (!profile) {
+        return;
+    }
+    
+    const triggerPick = await vscode.window.showQuickPick([
+        { label: 'On Save', description: 'Rerun whenever the document is saved', trigger: 'save' as WatchTrigger },
+        { label: 'On an Interval', description: 'Rerun every few seconds', trigger: 'interval' as WatchTrigger }
+    ], { placeHolder: 'When should the command run again?' });
+    if (!triggerPick) {
+        return;
+    }
+    
+    let intervalSeconds = 0;
+    if (triggerPick.trigger === 'interval') {
+        const answer = await vscode.window.showInputBox({
+            prompt: 'Rerun every how many seconds?',
+            value: '60',
+            validateInput: value => {
+                const seconds = Number(value);
+                return Number.isInteger(seconds) && seconds >= MIN_WATCH_INTERVAL_SECONDS
+                    ? undefined
+                    : `Enter a whole number of at least ${MIN_WATCH_INTERVAL_SECONDS}`;
+            }
+        });
+        if (answer === undefined) {
+            return;
         }
-        pre {
-            white-space: pre-wrap;
-            word-wrap: break-word;
-            margin: 0;
-            font-size: 14px;
-            line-height: 1.5;
+        intervalSeconds = Number(answer);
+    }
+    
+    // Prompts are answered once and reused by every rerun
+    const prompts = await templateVariableResolver.resolvePrompts(profile);
+    if (!prompts) {
+        return;
+    }
+    
+    let count = 0;
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: `Executing ${profile.name}...`
+    }, async () => {
+        for (const { selection } of target.selections) {
+            const stored = await watchManager.addWatch(target.editor, selection, profile, triggerPick.trigger, intervalSeconds, prompts);
+            if (stored) {
+                count++;
+            }
         }
-        .truncated {
-            margin-top: 20px;
-            font-style: italic;
-            color: #888;
+    });
+    
+    if (count > 0) {
+        vscode.window.setStatusBarMessage(`Watching ${count} selection${count === 1 ? '' : 's'} with ${profile.name}`, 3000);
+    }
+}
+
+function resolveRerunProfile(document: vscode.TextDocument, result: CommandResult): CommandProfile | undefined {
+    // Mapped templates are named after their mapping rather than a profile, so resolve the mapping again
+    if (result.mapping) {
+        const mapped = configManager.getProfileForDocument(document);
+        if (mapped) {
+            return mapped;
         }
-    </style>
-</head>
-<body>
-    <pre>${escapedOutput}</pre>
-    ${truncated ? '<div class="truncated">... (output truncated, hover over text to see full output)</div>' : ''}
-</body>
-</html>`;
+    }
+    
+    return resolveProfileByName(result.profile);
+}
+
+async function compareRuns(id: string, left?: number, right?: number): Promise<void> {
+    const found = findOutputById(id);
+    if (!found) {
+        return;
+    }
+    
+    const runs = hoverManager.getRuns(found.stored);
+    
+    if (left === undefined || right === undefined) {
+        const picked = await vscode.window.showQuickPick(
+            runs.map((run, index) => ({
+                label: new Date(run.timestamp).toLocaleString(),
+                description: index === 0 ? 'latest' : undefined,
+                detail: run.result.stdout.split(/\r?\n/)[0],
+                index
+            })),
+            { placeHolder: 'Select two runs to compare', canPickMany: true }
+        );
+        
+        if (!picked) {
+            return;
+        }
+        if (picked.length !== 2) {
+            vscode.window.showErrorMessage('Select exactly two runs to compare');
+            return;
+        }
+        
+        // Runs are listed newest first; show the older one on the left
+        [right, left] = picked.map(item => item.index).sort((a, b) => a - b);
+    }
+    
+    if (!runs[left] || !runs[right]) {
+        vscode.window.showErrorMessage('This run is no longer available');
+        return;
+    }
+    
+    const title = `${runs[left].input}: ${new Date(runs[left].timestamp).toLocaleTimeString()} ↔ ${new Date(runs[right].timestamp).toLocaleTimeString()}`;
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        runDocumentProvider.createUri(runs[left]),
+        runDocumentProvider.createUri(runs[right]),
+        title
+    );
+}
+
+async function openFileLocation(filePath: string, line: number, column = 1): Promise<void> {
+    // Locations in command output are 1-based
+    const position = new vscode.Position(Math.max(0, line - 1), Math.max(0, column - 1));
+    
+    const uri = await resolveWorkspaceFile(filePath);
+    if (!uri) {
+        vscode.window.showErrorMessage(`File not found in the workspace: ${filePath}`);
+        return;
+    }
+    
+    try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const validated = document.validatePosition(position);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(validated, validated) });
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not open ${filePath}: ${error}`);
+    }
+}
+
+function findOutputAtCursor(): StoredOutput | undefined {
+    const editor = vscode.window.activeTextEditor;
+    const stored = editor && hoverManager.findOutput(editor.document, editor.selection.active);
+    
+    if (!stored) {
+        vscode.window.showInformationMessage('No command output at the cursor');
+    }
+    return stored;
+}
+
+async function openOutputInEditor(stored: StoredOutput, run: OutputRun = hoverManager.getSelectedRun(stored)): Promise<void> {
+    // Earlier runs never change, so they open as snapshots; the latest run follows reruns
+    const uri = run.timestamp === stored.timestamp
+        ? OutputDocumentProvider.createUri(stored)
+        : runDocumentProvider.createUri(run);
+    
+    await vscode.window.showTextDocument(uri, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+}
+
+function showRunResults(profile: CommandProfile, runs: CompletedRun[]): void {
+    if (runs.every(run => run.result.cancelled)) {
+        vscode.window.showInformationMessage(`Command cancelled: ${profile.name}`);
+        return;
+    }
+    
+    if (runs.length === 1) {
+        // Show output (or error) in the output panel immediately
+        const { stored } = runs[0];
+        showInOutputPanel(hoverManager.getRuns(stored)[0], stored.id);
+        return;
+    }
+    
+    const failed = runs.filter(run => !run.result.success).length;
+    outputPanel.showRuns(
+        runs.map(({ stored }) => ({ run: hoverManager.getRuns(stored)[0], outputId: stored.id })),
+        `${profile.name}: ${runs.length} runs, ${failed} failed`,
+        configManager.getConfig().outputPanelRuns
+    );
+}
+
+function showInOutputPanel(run: OutputRun, outputId: string): void {
+    outputPanel.show({ run, outputId }, configManager.getConfig().outputPanelRuns);
 }
 
 async function postJsonToRemoteUrl(editor: vscode.TextEditor, promptForUrl: boolean): Promise<void> {
@@ -1,13 +1,82 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CommandResult, formatDuration } from './commandExecutor';
+import { ConfigManager, ExtensionConfig } from './configManager';
+import { detectOutputLanguage } from './outputLanguage';
+import { OutputPersistence, SerializedOutput } from './outputPersistence';
+import { findLinks, hasAnsiCodes, inlineCode, renderOutputHtml, stripAnsiCodes } from './outputRenderer';
+import { updateRange } from './rangeTracker';
 
-interface StoredOutput {
-    output: string;
-    range: vscode.Range;
+export type OutputStatus = 'success' | 'error' | 'cancelled';
+
+export interface OutputRun {
+    result: CommandResult;
     timestamp: number;
-    command: string;
     input: string;
+    prompts: Record<string, string>;
+}
+
+// The latest run on a range, together with the earlier runs on the same range
+export interface StoredOutput extends OutputRun {
+    // Stable across reruns on the same range and across reloads, so hover links can refer to the output
+    id: string;
+    range: vscode.Range;
+    // Earlier runs, newest first
+    history?: OutputRun[];
+    // Set once the text the command ran on has been edited
+    stale?: boolean;
+    // Hash of the text the range covers, used to restore the output after a reload
+    fingerprint?: string;
+}
+
+/**
+ * Produces output on demand for positions without a stored output, e.g. by running a command.
+ */
+export interface LazyOutputProvider {
+    provideOutput(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<StoredOutput | undefined>;
+}
+
+export function createOutputId(): string {
+    return crypto.randomUUID();
 }
 
+export function getOutputStatus(result: CommandResult): OutputStatus {
+    return result.success ? 'success' : result.cancelled ? 'cancelled' : 'error';
+}
+
+export function formatAge(timestamp: number): string {
+    const seconds = Math.floor((Date.now() - timestamp) / 1000);
+    
+    if (seconds < 60) {
+        return 'just now';
+    }
+    if (seconds < 60 * 60) {
+        return `${Math.floor(seconds / 60)}m ago`;
+    }
+    if (seconds < 24 * 60 * 60) {
+        return `${Math.floor(seconds / (60 * 60))}h ago`;
+    }
+    return `${Math.floor(seconds / (24 * 60 * 60))}d ago`;
+}
+
+// Lazy outputs are not stored, but their hover links still need to find them for a while
+const MAX_LAZY_OUTPUTS = 20;
+// Links are collected from the start of the output only, since hovers are built on every mouse move
+const MAX_LINK_SCAN_LENGTH = 10000;
+const MAX_HOVER_LINKS = 5;
+// The commands the hover links run
+const HOVER_COMMANDS = [
+    'commandOutputHover.showFullOutput',
+    'commandOutputHover.showRun',
+    'commandOutputHover.compareRuns',
+    'commandOutputHover.copyOutput',
+    'commandOutputHover.openOutput',
+    'commandOutputHover.rerunOutput',
+    'commandOutputHover.applyOutput',
+    'commandOutputHover.clearOutput',
+    'commandOutputHover.openLocation'
+];
+
 interface DocumentHoverData {
     uri: string;
     outputs: StoredOutput[];
@@ -15,167 +84,554 @@ interface DocumentHoverData {
 
 export class HoverManager implements vscode.HoverProvider {
     private hoverData: Map<string, DocumentHoverData> = new Map();
+    // Persisted outputs of documents that have not been opened since they were loaded or closed
+    private pendingData: Map<string, SerializedOutput[]>;
     private cleanupInterval: NodeJS.Timeout | undefined;
-    private readonly CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-    private readonly MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+    private saveTimeout: NodeJS.Timeout | undefined;
+    // Documents whose outputs changed since the last save
+    private unsavedDocuments: Set<string> = new Set();
+    private retentionMs = 0;
+    private maxOutputsPerDocument = 0;
+    private historySize = 1;
+    // Run shown in the hover when stepping through a range's history, by index into getRuns()
+    private selectedRuns: WeakMap<StoredOutput, number> = new WeakMap();
+    private lazyOutputs: Map<string, { uri: vscode.Uri; stored: StoredOutput }> = new Map();
+    private readonly persistence: OutputPersistence;
+    private readonly configChangeDisposable: vscode.Disposable;
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private static readonly SAVE_DELAY_MS = 1000;
     
-    constructor() {
-        this.startCleanupTimer();
+    // Fires with the document URI whenever its stored outputs are added, removed or moved
+    readonly onDidChangeOutputs = this.changeEmitter.event;
+    
+    constructor(
+        configManager: ConfigManager,
+        state: vscode.Memento,
+        private readonly lazyOutputProvider?: LazyOutputProvider
+    ) {
+        this.persistence = new OutputPersistence(state);
+        this.pendingData = this.persistence.load();
+        this.applyConfig(configManager.getConfig());
+        this.configChangeDisposable = configManager.onConfigChange(config => this.applyConfig(config));
     }
     
-    storeOutput(document: vscode.TextDocument, range: vscode.Range, output: string, command: string, input: string): void {
+    storeOutput(document: vscode.TextDocument, range: vscode.Range, result: CommandResult, input: string, prompts: Record<string, string> = {}): StoredOutput {
         const uri = document.uri.toString();
+        const docData = this.getDocumentData(document) ?? { uri, outputs: [] };
+        this.hoverData.set(uri, docData);
         
-        if (!this.hoverData.has(uri)) {
-            this.hoverData.set(uri, {
-                uri,
-                outputs: []
-            });
-        }
-        
-        const docData = this.hoverData.get(uri)!;
-        
-        // Remove any existing output for the same range
-        docData.outputs = docData.outputs.filter(stored => !stored.range.isEqual(range));
+        // Replace any existing output for the same range, keeping it in the history
+        const previous = docData.outputs.find(stored => stored.range.isEqual(range));
+        const history = previous ? this.getRuns(previous).slice(0, this.historySize - 1) : [];
+        docData.outputs = docData.outputs.filter(stored => stored !== previous);
         
         // Add new output
-        docData.outputs.push({
-            output,
+        const stored: StoredOutput = {
+            id: previous?.id ?? createOutputId(),
+            result,
             range,
             timestamp: Date.now(),
-            command,
-            input
-        });
+            input,
+            prompts,
+            history,
+            fingerprint: OutputPersistence.fingerprint(document.getText(range))
+        };
+        docData.outputs.push(stored);
+        
+        // Drop the oldest outputs beyond the per-document limit
+        if (docData.outputs.length > this.maxOutputsPerDocument) {
+            docData.outputs.sort((a, b) => a.timestamp - b.timestamp);
+            docData.outputs.splice(0, docData.outputs.length - this.maxOutputsPerDocument);
+        }
+        
+        this.onOutputsChanged(document.uri);
+        return stored;
     }
-
-    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.ProviderResult<vscode.Hover> {
-        const uri = document.uri.toString();
-        const docData = this.hoverData.get(uri);
+    
+    provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
+        const stored = this.findOutput(document, position);
+        if (stored) {
+            return this.createHover(stored, true);
+        }
         
-        if (!docData) {
+        if (!this.lazyOutputProvider) {
             return null;
         }
         
-        // Find output for the position
-        for (const stored of docData.outputs) {
-            if (stored.range.contains(position)) {
-                // Create rich markdown content
-                const markdown = new vscode.MarkdownString();
-                markdown.isTrusted = true;
-                markdown.supportHtml = true;
-                
-                // Add a header
-                const isError = stored.output.startsWith('Error:');
-                const icon = isError ? '❌' : '✅';
-                markdown.appendMarkdown(`${icon} **Command Output**\n\n`);
-                
-                // Show the executed command
-                markdown.appendMarkdown(`**Input:** \`${stored.input}\`\n\n`);
-                markdown.appendMarkdown(`**Command:** \`${stored.command}\`\n\n`);
-                markdown.appendMarkdown('---\n\n');
-                
-                // Show preview (first 200 chars)
-                const previewLength = 200;
-                let preview = stored.output;
-                let showFullLink = false;
-                
-                if (stored.output.length > previewLength) {
-                    preview = stored.output.substring(0, previewLength) + '...';
-                    showFullLink = true;
+        // VS Code shows "Loading..." until the command finishes; lazy outputs are not stored, so they only get read-only actions
+        return this.lazyOutputProvider.provideOutput(document, position, token)
+            .then(lazy => {
+                if (!lazy) {
+                    return null;
                 }
-                
-                // Add the output as code block
-                markdown.appendCodeblock(preview, 'text');
-                
-                // Add command link to show full output in popup
-                if (showFullLink) {
-                    markdown.appendMarkdown('\n\n---\n\n');
-                    markdown.appendMarkdown('_Output truncated. ');
-                }
-                
-                const commandUri = vscode.Uri.parse(
-                    `command:commandOutputHover.showFullOutput?${encodeURIComponent(JSON.stringify({
-                        output: stored.output,
-                        isError
-                    }))}`
-                );
-                markdown.appendMarkdown(`[Click here to view full output](${commandUri})_`);
-                
-                return new vscode.Hover(markdown, stored.range);
+                this.rememberLazyOutput(document.uri, lazy);
+                return this.createHover(lazy, false);
+            });
+    }
+    
+    private rememberLazyOutput(uri: vscode.Uri, stored: StoredOutput): void {
+        this.lazyOutputs.delete(stored.id);
+        this.lazyOutputs.set(stored.id, { uri, stored });
+        
+        // Maps iterate in insertion order, so the first key is the oldest
+        if (this.lazyOutputs.size > MAX_LAZY_OUTPUTS) {
+            this.lazyOutputs.delete(this.lazyOutputs.keys().next().value!);
+        }
+    }
+    
+    private createHover(stored: StoredOutput, showActions: boolean): vscode.Hover {
+        // Create rich markdown content
+        const markdown = new vscode.MarkdownString();
+        // Only the hover's own links may run commands, whatever the output and input contain
+        markdown.isTrusted = { enabledCommands: HOVER_COMMANDS };
+        markdown.supportHtml = true;
+        
+        // Add a header
+        const run = this.getSelectedRun(stored);
+        const { result } = run;
+        const status = getOutputStatus(result);
+        const isError = status !== 'success';
+        const icon = status === 'cancelled' ? '⏹️' : isError ? '❌' : '✅';
+        const title = status === 'cancelled' ? 'Command Output (cancelled)' : 'Command Output';
+        markdown.appendMarkdown(`${icon} **${title}**\n\n`);
+        if (stored.stale) {
+            markdown.appendMarkdown('⚠️ _The text has been edited since this command ran._\n\n');
+        }
+        if (showActions && stored.history?.length) {
+            markdown.appendMarkdown(`${this.formatHistoryLinks(stored)}\n\n`);
+        }
+        
+        // Show the executed command
+        // Mapped templates are named after their mapping, mapped profiles keep their own name
+        if (result.mapping === result.profile) {
+            markdown.appendMarkdown(`**Mapping:** ${result.mapping}\n\n`);
+        } else {
+            markdown.appendMarkdown(`**Profile:** ${result.profile}\n\n`);
+            if (result.mapping) {
+                markdown.appendMarkdown(`**Mapped by:** ${result.mapping}\n\n`);
             }
         }
+        markdown.appendMarkdown(`**Input:** ${inlineCode(run.input)}\n\n`);
+        for (const [label, value] of Object.entries(run.prompts)) {
+            markdown.appendMarkdown(`**${label}:** ${inlineCode(value)}\n\n`);
+        }
+        markdown.appendMarkdown(`**Command:** ${inlineCode(result.command)}\n\n`);
+        markdown.appendMarkdown(`${this.formatExitDetails(run)}\n\n`);
+        if (isError && result.error) {
+            markdown.appendMarkdown(`**Error:** ${result.error}\n\n`);
+        }
+        markdown.appendMarkdown('---\n\n');
+        
+        // Show preview (first 200 chars)
+        const previewLength = 200;
+        let preview = result.stdout;
+        let showFullLink = false;
+        
+        if (result.stdout.length > previewLength) {
+            preview = result.stdout.substring(0, previewLength) + '...';
+            showFullLink = true;
+        }
+        
+        // Add the output as code block, highlighted by what the full output looks like
+        this.appendOutput(markdown, preview || '(no output)', detectOutputLanguage(result.stdout));
+        
+        // Keep stderr apart so warnings are not mistaken for output
+        if (result.stderr) {
+            const stderrPreview = result.stderr.length > previewLength
+                ? result.stderr.substring(0, previewLength) + '...'
+                : result.stderr;
+            showFullLink = showFullLink || result.stderr.length > previewLength;
+            
+            markdown.appendMarkdown('\n\n<details><summary>stderr</summary>\n\n');
+            this.appendOutput(markdown, stderrPreview, 'text');
+            markdown.appendMarkdown('\n\n</details>\n\n');
+        }
+        
+        const links = this.formatOutputLinks(result);
+        if (links) {
+            markdown.appendMarkdown(`\n\n**Links:** ${links}\n\n`);
+        }
+        
+        // Add command link to show full output in popup
+        if (showFullLink) {
+            markdown.appendMarkdown('\n\n---\n\n');
+            markdown.appendMarkdown('_Output truncated._ ');
+        }
+        
+        markdown.appendMarkdown(this.formatLink('View full output', 'commandOutputHover.showFullOutput', { id: stored.id }));
+        markdown.appendMarkdown(`\n\n${this.formatActionLinks(stored, showActions)}`);
         
-        return null;
+        return new vscode.Hover(markdown, stored.range);
     }
     
-    getOutputAtPosition(document: vscode.TextDocument, position: vscode.Position): string | null {
-        const uri = document.uri.toString();
-        const docData = this.hoverData.get(uri);
+    private appendOutput(markdown: vscode.MarkdownString, output: string, language: string): void {
+        // Code blocks show escape codes verbatim, so colored output is rendered as HTML instead
+        if (hasAnsiCodes(output)) {
+            markdown.appendMarkdown(`\n\n<pre>${renderOutputHtml(output, false)}</pre>\n\n`);
+        } else {
+            markdown.appendCodeblock(output, language);
+        }
+    }
+    
+    private formatOutputLinks(result: CommandResult): string {
+        const text = stripAnsiCodes(`${result.stdout}\n${result.stderr}`).substring(0, MAX_LINK_SCAN_LENGTH);
+        const links = [...new Map(findLinks(text).map(link => [link.href, link])).values()];
         
-        if (!docData) {
-            return null;
+        return links
+            .slice(0, MAX_HOVER_LINKS)
+            .map(link => {
+                const label = link.text.replace(/[\\[\]]/g, '\\$&');
+                const href = link.href.replace(/\(/g, '%28').replace(/\)/g, '%29');
+                return `[${label}](${href})`;
+            })
+            .join(' · ');
+    }
+    
+    private formatExitDetails(run: OutputRun): string {
+        const { result } = run;
+        const details = [
+            `**Exit code:** ${result.exitCode ?? '-'}`,
+            `**Duration:** ${formatDuration(result.durationMs)}`,
+            `**Ran:** ${formatAge(run.timestamp)}`
+        ];
+        
+        if (result.signal) {
+            details.push(`**Signal:** ${result.signal}`);
+        }
+        
+        if (result.truncated) {
+            details.push('_output truncated_');
+        }
+        
+        if (result.cachedAt !== undefined) {
+            details.push(`_cached ${new Date(result.cachedAt).toLocaleString()}_`);
+        }
+        
+        return details.join(' · ');
+    }
+    
+    private formatHistoryLinks(stored: StoredOutput): string {
+        const target = { id: stored.id };
+        const runs = this.getRuns(stored);
+        const index = this.getSelectedRunIndex(stored);
+        const parts = [`**Run ${index + 1} of ${runs.length}** · ${new Date(runs[index].timestamp).toLocaleString()}`];
+        
+        if (index < runs.length - 1) {
+            parts.push(this.formatLink('◀ Older', 'commandOutputHover.showRun', { ...target, index: index + 1 }));
+        }
+        if (index > 0) {
+            parts.push(this.formatLink('Newer ▶', 'commandOutputHover.showRun', { ...target, index: index - 1 }));
         }
         
-        for (const stored of docData.outputs) {
-            if (stored.range.contains(position)) {
-                return stored.output;
+        // Runs are listed newest first, so the older run goes on the left of the diff
+        const older = index < runs.length - 1 ? index + 1 : index - 1;
+        parts.push(this.formatLink('Compare with ' + (older > index ? 'older' : 'newer'), 'commandOutputHover.compareRuns', {
+            ...target,
+            left: Math.max(index, older),
+            right: Math.min(index, older)
+        }));
+        parts.push(this.formatLink('Compare...', 'commandOutputHover.compareRuns', target));
+        
+        return parts.join(' | ');
+    }
+    
+    private formatActionLinks(stored: StoredOutput, showActions: boolean): string {
+        const target = { id: stored.id };
+        const links = [
+            this.formatLink('Copy', 'commandOutputHover.copyOutput', target),
+            this.formatLink('Open in Editor', 'commandOutputHover.openOutput', target)
+        ];
+        
+        if (showActions) {
+            links.unshift(this.formatLink('Rerun', 'commandOutputHover.rerunOutput', target));
+            links.push(
+                this.formatLink('Replace Selection', 'commandOutputHover.applyOutput', { ...target, action: 'replace' }),
+                this.formatLink('Insert Below', 'commandOutputHover.applyOutput', { ...target, action: 'insertBelow' }),
+                this.formatLink('Insert as Comment', 'commandOutputHover.applyOutput', { ...target, action: 'insertComment' }),
+                this.formatLink('Clear', 'commandOutputHover.clearOutput', target)
+            );
+        }
+        
+        return links.join(' | ');
+    }
+    
+    private formatLink(title: string, command: string, args: object): string {
+        return `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
+    }
+    
+    /**
+     * Returns every run on the output's range, newest first.
+     */
+    getRuns(stored: StoredOutput): OutputRun[] {
+        const latest: OutputRun = {
+            result: stored.result,
+            timestamp: stored.timestamp,
+            input: stored.input,
+            prompts: stored.prompts
+        };
+        return [latest, ...(stored.history ?? [])];
+    }
+    
+    getSelectedRun(stored: StoredOutput): OutputRun {
+        return this.getRuns(stored)[this.getSelectedRunIndex(stored)];
+    }
+    
+    selectRun(stored: StoredOutput, index: number): void {
+        this.selectedRuns.set(stored, index);
+    }
+    
+    private getSelectedRunIndex(stored: StoredOutput): number {
+        return Math.min(this.selectedRuns.get(stored) ?? 0, this.getRuns(stored).length - 1);
+    }
+    
+    getOutputs(document: vscode.TextDocument): StoredOutput[] {
+        return this.getDocumentData(document)?.outputs ?? [];
+    }
+    
+    findOutput(document: vscode.TextDocument, position: vscode.Position): StoredOutput | undefined {
+        const docData = this.getDocumentData(document);
+        return docData?.outputs.find(stored => stored.range.contains(position));
+    }
+    
+    /**
+     * Looks an output up by ID among open documents, saved outputs of closed documents and recent lazy outputs.
+     */
+    findOutputById(id: string): { uri: vscode.Uri; stored: StoredOutput } | undefined {
+        for (const { uri, outputs } of this.getAllOutputs()) {
+            const stored = outputs.find(candidate => candidate.id === id);
+            if (stored) {
+                return { uri, stored };
             }
         }
         
-        return null;
+        return this.lazyOutputs.get(id);
     }
     
-    clearOutput(document: vscode.TextDocument, range: vscode.Range): void {
-        const uri = document.uri.toString();
-        const docData = this.hoverData.get(uri);
+    getOutputAtPosition(document: vscode.TextDocument, position: vscode.Position): string | null {
+        return this.findOutput(document, position)?.result.stdout ?? null;
+    }
+    
+    /**
+     * Returns the outputs of every document, including saved outputs of documents that are not open.
+     */
+    getAllOutputs(): { uri: vscode.Uri; outputs: StoredOutput[] }[] {
+        const documents = [...this.hoverData.values()].map(docData => ({
+            uri: vscode.Uri.parse(docData.uri),
+            outputs: docData.outputs
+        }));
+        
+        for (const [uri, outputs] of this.pendingData) {
+            if (outputs.length > 0) {
+                documents.push({
+                    uri: vscode.Uri.parse(uri),
+                    outputs: outputs.map(serialized => this.persistence.deserialize(serialized))
+                });
+            }
+        }
+        
+        return documents;
+    }
+    
+    clearOutput(uri: vscode.Uri, range: vscode.Range): void {
+        const key = uri.toString();
+        const docData = this.hoverData.get(key);
         
         if (docData) {
             docData.outputs = docData.outputs.filter(stored => !stored.range.isEqual(range));
             
             // Remove document data if no outputs remain
             if (docData.outputs.length === 0) {
-                this.hoverData.delete(uri);
+                this.hoverData.delete(key);
             }
         }
+        
+        const pending = this.pendingData.get(key);
+        if (pending) {
+            this.pendingData.set(key, pending.filter(serialized => !this.persistence.deserialize(serialized).range.isEqual(range)));
+        }
+        
+        this.onOutputsChanged(uri);
     }
-
-    private startCleanupTimer(): void {
-        this.cleanupInterval = setInterval(() => {
+    
+    clearDocument(uri: vscode.Uri): void {
+        this.hoverData.delete(uri.toString());
+        this.pendingData.delete(uri.toString());
+        this.onOutputsChanged(uri);
+    }
+    
+    clearAll(): void {
+        const uris = [...this.hoverData.keys(), ...this.pendingData.keys()];
+        this.hoverData.clear();
+        this.pendingData.clear();
+        
+        for (const uri of new Set(uris)) {
+            this.onOutputsChanged(vscode.Uri.parse(uri));
+        }
+    }
+    
+    private getDocumentData(document: vscode.TextDocument): DocumentHoverData | undefined {
+        const uri = document.uri.toString();
+        const pending = this.pendingData.get(uri);
+        
+        // Restore persisted outputs the first time the document is used
+        if (pending) {
+            this.pendingData.delete(uri);
+            const outputs = this.persistence.restore(document, pending);
+            if (outputs.length > 0) {
+                this.hoverData.set(uri, { uri, outputs });
+            }
+        }
+        
+        return this.hoverData.get(uri);
+    }
+    
+    private onOutputsChanged(uri: vscode.Uri): void {
+        this.changeEmitter.fire(uri);
+        this.scheduleSave(uri.toString());
+    }
+    
+    private scheduleSave(uri: string): void {
+        this.unsavedDocuments.add(uri);
+        
+        // Edits move ranges on every keystroke, so batch the writes
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+        }
+        this.saveTimeout = setTimeout(() => this.saveNow(), HoverManager.SAVE_DELAY_MS);
+    }
+    
+    private saveNow(): void {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = undefined;
+        }
+        
+        for (const uri of this.unsavedDocuments) {
+            const docData = this.hoverData.get(uri);
+            const outputs = docData ? this.persistence.serialize(docData.outputs) : this.pendingData.get(uri) ?? [];
+            this.persistence.save(uri, outputs).catch(error => {
+                console.error('Failed to save command outputs:', error);
+            });
+        }
+        this.unsavedDocuments.clear();
+    }
+    
+    private applyConfig(config: ExtensionConfig): void {
+        this.retentionMs = config.outputRetention * 60 * 1000;
+        this.maxOutputsPerDocument = config.maxOutputsPerDocument;
+        this.historySize = config.historySize;
+        
+        if (this.cleanupInterval) {
+            clearInterval(this.cleanupInterval);
+            this.cleanupInterval = undefined;
+        }
+        
+        // A retention of 0 keeps outputs until they are cleared
+        if (this.retentionMs > 0) {
             this.cleanupStaleData();
-        }, this.CLEANUP_INTERVAL_MS);
+            this.cleanupInterval = setInterval(() => {
+                this.cleanupStaleData();
+            }, Math.max(60 * 1000, this.retentionMs / 10));
+        }
     }
     
     private cleanupStaleData(): void {
-        const now = Date.now();
+        const isExpired = (timestamp: number) => Date.now() - timestamp >= this.retentionMs;
         
         for (const [uri, docData] of this.hoverData.entries()) {
-            // Remove outputs older than MAX_AGE_MS
-            docData.outputs = docData.outputs.filter(stored => 
-                now - stored.timestamp < this.MAX_AGE_MS
-            );
+            // Remove outputs older than the retention period
+            const count = docData.outputs.length;
+            docData.outputs = docData.outputs.filter(stored => !isExpired(stored.timestamp));
             
             // Remove document data if no outputs remain
             if (docData.outputs.length === 0) {
                 this.hoverData.delete(uri);
             }
+            
+            if (docData.outputs.length !== count) {
+                this.onOutputsChanged(vscode.Uri.parse(uri));
+            }
+        }
+        
+        for (const [uri, outputs] of this.pendingData.entries()) {
+            const remaining = outputs.filter(serialized => !isExpired(serialized.timestamp));
+            if (remaining.length !== outputs.length) {
+                this.pendingData.set(uri, remaining);
+                this.onOutputsChanged(vscode.Uri.parse(uri));
+            }
         }
     }
     
     onDocumentClosed(document: vscode.TextDocument): void {
         const uri = document.uri.toString();
-        this.hoverData.delete(uri);
+        const docData = this.hoverData.get(uri);
+        
+        // Keep the outputs of closed documents for when they are reopened
+        if (docData) {
+            this.pendingData.set(uri, this.persistence.serialize(docData.outputs));
+            this.hoverData.delete(uri);
+        }
     }
     
-    onDocumentChanged(document: vscode.TextDocument): void {
-        // For now, we keep the hover data even when document changes
-        // In a more sophisticated implementation, we could track edits
-        // and adjust ranges accordingly
+    onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+        const uri = event.document.uri.toString();
+        const docData = this.getDocumentData(event.document);
+        
+        if (!docData || event.contentChanges.length === 0) {
+            return;
+        }
+        
+        // Typing away from every output moves nothing, so listeners and the save are only notified of real changes
+        let changed = false;
+        
+        // Each change is relative to the document after the previous ones, so apply them in order
+        docData.outputs = docData.outputs.filter(stored => {
+            const { range } = stored;
+            let edited = false;
+            for (const change of event.contentChanges) {
+                const tracked = updateRange(stored.range, change);
+                if (!tracked) {
+                    changed = true;
+                    return false;
+                }
+                stored.range = tracked.range;
+                edited = edited || tracked.edited;
+            }
+            
+            if (!edited && stored.range.isEqual(range)) {
+                return true;
+            }
+            changed = true;
+            stored.stale = stored.stale || edited;
+            
+            // Fingerprint the edited text so the output is still restored onto it after a reload
+            if (edited && stored.fingerprint !== undefined) {
+                stored.fingerprint = OutputPersistence.fingerprint(event.document.getText(stored.range));
+            }
+            return true;
+        });
+        
+        if (!changed) {
+            return;
+        }
+        
+        if (docData.outputs.length === 0) {
+            this.hoverData.delete(uri);
+        }
+        
+        this.onOutputsChanged(event.document.uri);
     }
     
     dispose(): void {
         if (this.cleanupInterval) {
             clearInterval(this.cleanupInterval);
         }
+        if (this.saveTimeout) {
+            this.saveNow();
+        }
+        this.configChangeDisposable.dispose();
         this.hoverData.clear();
+        this.lazyOutputs.clear();
+        this.changeEmitter.dispose();
     }
 }
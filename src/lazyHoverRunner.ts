@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { ConfigManager, ExtensionConfig, HoverPattern } from './configManager';
+import { CommandExecutor, CommandResult } from './commandExecutor';
+import { EnvironmentResolver } from './environmentResolver';
+import { createOutputId, LazyOutputProvider, StoredOutput } from './hoverManager';
+import { ResultCache } from './resultCache';
+import { TemplateVariableResolver } from './templateVariables';
+
+/**
+ * Runs the profile of a matching hoverPatterns entry when text without a stored output is hovered.
+ */
+export class LazyHoverRunner implements LazyOutputProvider, vscode.Disposable {
+    private patterns: HoverPattern[] = [];
+    private hoverDelay = 0;
+    private cacheMaxEntries = 0;
+    private readonly configChangeDisposable: vscode.Disposable;
+    
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly commandExecutor: CommandExecutor,
+        private readonly environmentResolver: EnvironmentResolver,
+        private readonly templateVariableResolver: TemplateVariableResolver,
+        private readonly resultCache: ResultCache
+    ) {
+        // Compile the patterns once instead of on every hover
+        this.loadConfig();
+        this.configChangeDisposable = configManager.onConfigChange(config => this.loadConfig(config));
+    }
+    
+    async provideOutput(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<StoredOutput | undefined> {
+        // Hovering must not run commands from a workspace the user has not trusted
+        if (!vscode.workspace.isTrusted) {
+            return undefined;
+        }
+        
+        const match = this.findMatch(document, position);
+        const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document === document);
+        if (!match || !editor) {
+            return undefined;
+        }
+        
+        const { range, pattern } = match;
+        const input = document.getText(range);
+        const profile = await this.environmentResolver.resolve(pattern.profile, document);
+        const variables = await this.templateVariableResolver.resolveContext(
+            profile,
+            editor,
+            new vscode.Selection(range.start, range.end)
+        );
+        
+        const command = this.commandExecutor.describeCommand(input, profile, variables);
+        const cacheKey = ResultCache.createKey(command, input, profile, variables);
+        const cached = this.resultCache.get(cacheKey, pattern.cacheTtl * 1000);
+        if (cached) {
+            return this.toStoredOutput({ ...cached.result, cachedAt: cached.timestamp }, range, input);
+        }
+        
+        // Debounce so that moving the mouse across matches does not start a command for each of them
+        await new Promise(resolve => setTimeout(resolve, this.hoverDelay));
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+        
+        // Closing the hover kills the command
+        const abortController = new AbortController();
+        const cancelDisposable = token.onCancellationRequested(() => abortController.abort());
+        
+        try {
+            const result = await this.commandExecutor.execute(input, profile, {
+                signal: abortController.signal,
+                variables
+            });
+            
+            if (result.cancelled) {
+                return undefined;
+            }
+            
+            if (result.success && !result.truncated) {
+                this.resultCache.set(cacheKey, result, this.cacheMaxEntries);
+            }
+            
+            return this.toStoredOutput(result, range, input);
+        } finally {
+            cancelDisposable.dispose();
+        }
+    }
+    
+    private findMatch(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; pattern: HoverPattern } | undefined {
+        for (const pattern of this.patterns) {
+            const range = document.getWordRangeAtPosition(position, pattern.regex);
+            if (range) {
+                return { range, pattern };
+            }
+        }
+        
+        return undefined;
+    }
+    
+    private toStoredOutput(result: CommandResult, range: vscode.Range, input: string): StoredOutput {
+        return {
+            id: createOutputId(),
+            result,
+            range,
+            timestamp: Date.now(),
+            input,
+            prompts: {}
+        };
+    }
+    
+    private loadConfig(config: ExtensionConfig = this.configManager.getConfig()): void {
+        this.patterns = this.configManager.getHoverPatterns(config);
+        this.hoverDelay = config.hoverDelay;
+        this.cacheMaxEntries = config.cacheMaxEntries;
+    }
+    
+    dispose(): void {
+        this.configChangeDisposable.dispose();
+    }
+}
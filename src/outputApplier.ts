@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+
+export type OutputAction = 'replace' | 'insertBelow' | 'insertComment';
+
+export interface OutputPlacement {
+    range: vscode.Range;
+    output: string;
+}
+
+const LINE_COMMENTS: Record<string, string> = {
+    javascript: '//',
+    javascriptreact: '//',
+    typescript: '//',
+    typescriptreact: '//',
+    java: '//',
+    c: '//',
+    cpp: '//',
+    csharp: '//',
+    go: '//',
+    rust: '//',
+    swift: '//',
+    kotlin: '//',
+    scala: '//',
+    dart: '//',
+    php: '//',
+    jsonc: '//',
+    python: '#',
+    shellscript: '#',
+    ruby: '#',
+    perl: '#',
+    r: '#',
+    yaml: '#',
+    toml: '#',
+    makefile: '#',
+    dockerfile: '#',
+    powershell: '#',
+    coffeescript: '#',
+    elixir: '#',
+    sql: '--',
+    lua: '--',
+    haskell: '--',
+    bat: 'REM',
+    ini: ';',
+    clojure: ';',
+    lisp: ';',
+    vb: "'",
+    latex: '%',
+    tex: '%',
+    erlang: '%',
+    matlab: '%'
+};
+
+const BLOCK_COMMENTS: Record<string, [string, string]> = {
+    html: ['<!--', '-->'],
+    xml: ['<!--', '-->'],
+    markdown: ['<!--', '-->'],
+    vue: ['<!--', '-->'],
+    css: ['/*', '*/'],
+    scss: ['/*', '*/'],
+    less: ['/*', '*/']
+};
+
+export class OutputApplier {
+    
+    /**
+     * Writes command outputs into the document with a single WorkspaceEdit, so one undo
+     * reverts every placement. Empty outputs are skipped. Returns the number of placements applied.
+     */
+    async apply(document: vscode.TextDocument, placements: OutputPlacement[], action: OutputAction): Promise<number> {
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const edit = new vscode.WorkspaceEdit();
+        
+        // Several outputs below the same line are combined into one insertion, in document order
+        const insertions = new Map<number, string[]>();
+        let applied = 0;
+        
+        for (const { range, output } of placements) {
+            const lines = this.toLines(output);
+            if (lines.length === 0) {
+                continue;
+            }
+            applied++;
+            
+            if (action === 'replace') {
+                edit.replace(document.uri, range, lines.join(eol));
+                continue;
+            }
+            
+            const line = document.lineAt(range.end.line);
+            const indent = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+            const formatted = action === 'insertComment' ? this.toComment(lines, document.languageId) : lines;
+            
+            const existing = insertions.get(line.lineNumber) ?? [];
+            existing.push(...formatted.map(text => eol + (text ? indent + text : '')));
+            insertions.set(line.lineNumber, existing);
+        }
+        
+        for (const [lineNumber, texts] of insertions) {
+            edit.insert(document.uri, document.lineAt(lineNumber).range.end, texts.join(''));
+        }
+        
+        if (applied > 0 && !await vscode.workspace.applyEdit(edit)) {
+            throw new Error('The editor rejected the edit');
+        }
+        
+        return applied;
+    }
+    
+    private toLines(output: string): string[] {
+        // Commands usually end their output with a newline, which should not end up in the document
+        const trimmed = output.replace(/(\r?\n)+$/, '');
+        return trimmed.length > 0 ? trimmed.split(/\r?\n/) : [];
+    }
+    
+    private toComment(lines: string[], languageId: string): string[] {
+        const block = BLOCK_COMMENTS[languageId];
+        if (block) {
+            return [block[0], ...lines, block[1]];
+        }
+        
+        const prefix = LINE_COMMENTS[languageId] ?? '#';
+        return lines.map(line => line ? `${prefix} ${line}` : prefix);
+    }
+}
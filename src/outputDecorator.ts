@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { ConfigManager, DecorationMode } from './configManager';
+import { CommandResult, formatDuration } from './commandExecutor';
+import { getOutputStatus, HoverManager, OutputStatus } from './hoverManager';
+
+const STATUS_ICONS: Record<OutputStatus, string> = {
+    success: '✅',
+    error: '❌',
+    cancelled: '⏹️'
+};
+
+const GUTTER_COLORS: Record<OutputStatus, string> = {
+    success: '#3fb950',
+    error: '#f85149',
+    cancelled: '#8b949e'
+};
+
+const MAX_SUMMARY_LENGTH = 60;
+
+/**
+ * Shows a short summary after each stored output and a gutter icon on its line.
+ */
+export class OutputDecorator implements vscode.Disposable {
+    private readonly decorationTypes: Record<OutputStatus, vscode.TextEditorDecorationType>;
+    private readonly disposables: vscode.Disposable[] = [];
+    private mode: DecorationMode;
+    
+    constructor(private readonly hoverManager: HoverManager, configManager: ConfigManager) {
+        this.decorationTypes = {
+            success: this.createDecorationType('success', 'commandOutputHover.decorationForeground'),
+            error: this.createDecorationType('error', 'commandOutputHover.decorationErrorForeground'),
+            cancelled: this.createDecorationType('cancelled', 'commandOutputHover.decorationForeground')
+        };
+        this.mode = configManager.getConfig().decorations;
+        
+        this.disposables.push(
+            hoverManager.onDidChangeOutputs(uri => this.refreshDocument(uri)),
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.refresh(editor))),
+            configManager.onConfigChange(config => {
+                this.mode = config.decorations;
+                vscode.window.visibleTextEditors.forEach(editor => this.refresh(editor));
+            })
+        );
+        
+        vscode.window.visibleTextEditors.forEach(editor => this.refresh(editor));
+    }
+    
+    private refreshDocument(uri: vscode.Uri): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() === uri.toString()) {
+                this.refresh(editor);
+            }
+        }
+    }
+    
+    private refresh(editor: vscode.TextEditor): void {
+        const decorations: Record<OutputStatus, vscode.DecorationOptions[]> = {
+            success: [],
+            error: [],
+            cancelled: []
+        };
+        
+        if (this.mode !== DecorationMode.Off) {
+            for (const stored of this.hoverManager.getOutputs(editor.document)) {
+                // Attach to the end of the line so the summary never splits the selected text
+                const lineEnd = editor.document.lineAt(editor.document.validatePosition(stored.range.end).line).range.end;
+                decorations[getOutputStatus(stored.result)].push({
+                    range: new vscode.Range(lineEnd, lineEnd),
+                    renderOptions: {
+                        after: { contentText: this.formatSummary(stored.result) + (stored.stale ? ' (edited)' : '') }
+                    }
+                });
+            }
+        }
+        
+        for (const status of Object.keys(decorations) as OutputStatus[]) {
+            editor.setDecorations(this.decorationTypes[status], decorations[status]);
+        }
+    }
+    
+    private formatSummary(result: CommandResult): string {
+        const status = getOutputStatus(result);
+        let summary: string;
+        
+        if (status === 'cancelled') {
+            summary = 'cancelled';
+        } else if (this.mode === DecorationMode.FirstLine && result.success && result.stdout.trim()) {
+            summary = result.stdout.trim().split(/\r?\n/)[0];
+        } else if (this.mode === DecorationMode.FirstLine && !result.success && result.error) {
+            summary = result.error;
+        } else {
+            summary = result.success
+                ? formatDuration(result.durationMs)
+                : `exit ${result.exitCode ?? '-'} · ${formatDuration(result.durationMs)}`;
+        }
+        
+        if (summary.length > MAX_SUMMARY_LENGTH) {
+            summary = summary.substring(0, MAX_SUMMARY_LENGTH) + '…';
+        }
+        
+        return `${STATUS_ICONS[status]} ${summary}`;
+    }
+    
+    private createDecorationType(status: OutputStatus, color: string): vscode.TextEditorDecorationType {
+        const icon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="4" fill="${GUTTER_COLORS[status]}"/></svg>`;
+        
+        return vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(icon)}`),
+            gutterIconSize: 'contain',
+            after: {
+                color: new vscode.ThemeColor(color),
+                margin: '0 0 0 2em',
+                fontStyle: 'italic'
+            },
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+    }
+    
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        Object.values(this.decorationTypes).forEach(decorationType => decorationType.dispose());
+    }
+}
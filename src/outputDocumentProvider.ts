@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { HoverManager, StoredOutput } from './hoverManager';
+import { detectOutputLanguage, getFileExtension } from './outputLanguage';
+import { formatRunText, toPathLabel } from './runDocumentProvider';
+
+const LANGUAGE_IDS: Record<string, string> = {
+    json: 'json',
+    xml: 'xml',
+    diff: 'diff',
+    text: 'plaintext'
+};
+
+/**
+ * Serves stored outputs as read-only documents at command-output:/<id>/<input>.<extension>.
+ * Unlike run snapshots, these documents follow their output and refresh when it is rerun.
+ */
+export class OutputDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly SCHEME = 'command-output';
+    
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly outputsChangeDisposable: vscode.Disposable;
+    // Timestamp of the run each open document shows, by document URI
+    private shownRuns: Map<string, number> = new Map();
+    
+    readonly onDidChange = this.changeEmitter.event;
+    
+    constructor(private readonly hoverManager: HoverManager) {
+        this.outputsChangeDisposable = hoverManager.onDidChangeOutputs(() => this.refresh());
+    }
+    
+    static createUri(stored: StoredOutput): vscode.Uri {
+        const extension = getFileExtension(detectOutputLanguage(stored.result.stdout));
+        return vscode.Uri.from({
+            scheme: OutputDocumentProvider.SCHEME,
+            path: `/${stored.id}/${toPathLabel(stored.input)}.${extension}`
+        });
+    }
+    
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const stored = this.findOutput(uri);
+        if (!stored) {
+            this.shownRuns.delete(uri.toString());
+            return '(This command output is no longer available)';
+        }
+        
+        this.shownRuns.set(uri.toString(), stored.timestamp);
+        return formatRunText(stored);
+    }
+    
+    onDocumentClosed(document: vscode.TextDocument): void {
+        if (document.uri.scheme === OutputDocumentProvider.SCHEME) {
+            this.shownRuns.delete(document.uri.toString());
+        }
+    }
+    
+    private findOutput(uri: vscode.Uri): StoredOutput | undefined {
+        const id = uri.path.split('/')[1];
+        return this.hoverManager.findOutputById(id)?.stored;
+    }
+    
+    private refresh(): void {
+        // Outputs also change when their ranges move, so only refresh documents whose run was replaced or removed
+        for (const [uri, timestamp] of this.shownRuns) {
+            const documentUri = vscode.Uri.parse(uri);
+            const stored = this.findOutput(documentUri);
+            if (stored?.timestamp === timestamp) {
+                continue;
+            }
+            
+            this.changeEmitter.fire(documentUri);
+            if (stored) {
+                this.updateLanguage(documentUri, stored);
+            }
+        }
+    }
+    
+    private updateLanguage(uri: vscode.Uri, stored: StoredOutput): void {
+        // The rerun may produce another kind of output than the one the document was opened with
+        const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString());
+        const languageId = LANGUAGE_IDS[detectOutputLanguage(stored.result.stdout)];
+        
+        if (document && languageId && document.languageId !== languageId) {
+            vscode.languages.setTextDocumentLanguage(document, languageId).then(undefined, error => {
+                console.error('Failed to update command output language:', error);
+            });
+        }
+    }
+    
+    dispose(): void {
+        this.outputsChangeDisposable.dispose();
+        this.changeEmitter.dispose();
+    }
+}
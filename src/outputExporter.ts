@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { getOutputStatus, OutputStatus, StoredOutput } from './hoverManager';
+import { inlineCode } from './outputRenderer';
+
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+export interface ExportRecord {
+    document: string;
+    line: number;
+    input: string;
+    profile: string;
+    command: string;
+    status: OutputStatus;
+    exitCode: number | null;
+    timestamp: string;
+    durationMs: number;
+    output: string;
+    stderr: string;
+}
+
+const CSV_COLUMNS: (keyof ExportRecord)[] = [
+    'document',
+    'line',
+    'input',
+    'profile',
+    'command',
+    'status',
+    'exitCode',
+    'timestamp',
+    'durationMs',
+    'output',
+    'stderr'
+];
+
+/**
+ * Formats stored outputs as a Markdown, JSON or CSV report, one record per range with its latest run.
+ */
+export class OutputExporter {
+    
+    toRecords(documents: { uri: vscode.Uri; outputs: StoredOutput[] }[]): ExportRecord[] {
+        const records: ExportRecord[] = [];
+        
+        for (const { uri, outputs } of documents) {
+            const sorted = [...outputs].sort((a, b) => a.range.start.compareTo(b.range.start));
+            
+            for (const stored of sorted) {
+                const { result } = stored;
+                records.push({
+                    document: vscode.workspace.asRelativePath(uri),
+                    line: stored.range.start.line + 1,
+                    input: stored.input,
+                    profile: result.profile,
+                    command: result.command,
+                    status: getOutputStatus(result),
+                    exitCode: result.exitCode,
+                    timestamp: new Date(stored.timestamp).toISOString(),
+                    durationMs: result.durationMs,
+                    output: result.stdout,
+                    stderr: result.stderr
+                });
+            }
+        }
+        
+        return records;
+    }
+    
+    format(records: ExportRecord[], format: ExportFormat): string {
+        switch (format) {
+            case 'json':
+                return JSON.stringify(records, null, 2) + '\n';
+            case 'csv':
+                return this.formatCsv(records);
+            default:
+                return this.formatMarkdown(records);
+        }
+    }
+    
+    private formatCsv(records: ExportRecord[]): string {
+        const rows = [
+            CSV_COLUMNS.join(','),
+            ...records.map(record => CSV_COLUMNS.map(column => this.escapeCsv(record[column])).join(','))
+        ];
+        
+        return rows.join('\r\n') + '\r\n';
+    }
+    
+    private escapeCsv(value: string | number | null): string {
+        const text = value === null ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+    
+    private formatMarkdown(records: ExportRecord[]): string {
+        const lines = ['# Command Outputs', '', `Exported ${new Date().toLocaleString()}`, ''];
+        let currentDocument: string | undefined;
+        
+        for (const record of records) {
+            if (record.document !== currentDocument) {
+                currentDocument = record.document;
+                lines.push(`## ${record.document}`, '');
+            }
+            
+            lines.push(
+                `### ${inlineCode(record.input)} (line ${record.line})`,
+                '',
+                `- **Profile:** ${record.profile}`,
+                `- **Command:** ${inlineCode(record.command)}`,
+                `- **Status:** ${record.status} (exit code ${record.exitCode ?? '-'})`,
+                `- **Time:** ${record.timestamp}`,
+                `- **Duration:** ${record.durationMs}ms`,
+                '',
+                ...this.codeBlock(record.output || '(no output)')
+            );
+            
+            if (record.stderr) {
+                lines.push('**stderr:**', '', ...this.codeBlock(record.stderr));
+            }
+        }
+        
+        return lines.join('\n');
+    }
+    
+    private codeBlock(text: string): string[] {
+        // The fence must be longer than any run of backticks in the text
+        const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        return [fence, text.replace(/\r?\n$/, ''), fence, ''];
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Guesses the language of command output for syntax highlighting. Falls back to plain text.
+ */
+export function detectOutputLanguage(output: string): string {
+    const text = output.trim();
+    
+    if ((text.startsWith('{') || text.startsWith('[')) && isJson(text)) {
+        return 'json';
+    }
+    
+    if (/^<(\?xml|[A-Za-z!])/.test(text) && text.endsWith('>')) {
+        return 'xml';
+    }
+    
+    // Unified diffs, with or without a git header
+    if (/^(diff --git |--- .*\r?\n\+\+\+ |@@ -\d)/m.test(text)) {
+        return 'diff';
+    }
+    
+    return 'text';
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    json: 'json',
+    xml: 'xml',
+    diff: 'diff',
+    text: 'txt'
+};
+
+/**
+ * Returns the file extension for a language from detectOutputLanguage, so that editors pick the same language.
+ */
+export function getFileExtension(language: string): string {
+    return FILE_EXTENSIONS[language] ?? 'txt';
+}
+
+function isJson(text: string): boolean {
+    try {
+        JSON.parse(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,551 @@
+import * as vscode from 'vscode';
+import { CommandResult, formatDuration } from './commandExecutor';
+import { getOutputStatus, OutputRun } from './hoverManager';
+import { detectOutputLanguage, getFileExtension } from './outputLanguage';
+import { escapeHtml, renderJsonTree, renderOutputHtml } from './outputRenderer';
+
+export interface PanelEntry {
+    run: OutputRun;
+    // The stored output the run belongs to, if it was stored
+    outputId?: string;
+}
+
+interface PanelMessage {
+    type: 'select' | 'copy' | 'save';
+    index?: number;
+}
+
+const MAX_TAB_LABEL_LENGTH = 30;
+// Index of the tab that lists every run of a multi-selection run side by side
+const ALL_RUNS_TAB = -1;
+
+interface RunBatch {
+    summary: string;
+    // In document order
+    entries: PanelEntry[];
+}
+
+/**
+ * The single "Command Output" panel. It shows one run's full output at a time, with a tab for
+ * each of the last runs shown in it, and is reused instead of opening a new panel per run.
+ */
+export class OutputPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    // Newest first
+    private entries: PanelEntry[] = [];
+    private selected = 0;
+    // The last multi-selection run, listed in the "All runs" tab until a run outside it is shown
+    private batch: RunBatch | undefined;
+    
+    /**
+     * Shows a run in the panel, adding a tab for it unless it already has one.
+     */
+    show(entry: PanelEntry, maxRuns: number, preserveFocus = false): void {
+        if (this.batch && !this.batch.entries.some(existing => this.isSameRun(existing, entry))) {
+            this.batch = undefined;
+        }
+        
+        const index = this.entries.findIndex(existing => this.isSameRun(existing, entry));
+        if (index >= 0) {
+            this.selected = index;
+        } else {
+            this.entries.unshift(entry);
+            this.entries.splice(maxRuns);
+            this.selected = 0;
+        }
+        
+        this.open(preserveFocus);
+    }
+    
+    /**
+     * Shows the runs of one command on several selections: an "All runs" tab lists each input next to
+     * its status and output, followed by a tab per run in document order.
+     */
+    showRuns(entries: PanelEntry[], summary: string, maxRuns: number): void {
+        // Runs of the batch that already had a tab move to their place in the batch; every run gets a tab, even beyond maxRuns
+        const others = this.entries.filter(existing => !entries.some(entry => this.isSameRun(existing, entry)));
+        this.entries = [...entries, ...others].slice(0, Math.max(maxRuns, entries.length));
+        
+        this.batch = { summary, entries };
+        this.selected = ALL_RUNS_TAB;
+        this.open(false);
+    }
+    
+    private open(preserveFocus: boolean): void {
+        if (this.panel) {
+            this.panel.reveal(undefined, preserveFocus);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'commandOutput',
+                'Command Output',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus },
+                {
+                    enableScripts: true,
+                    // File locations in the output open through command links
+                    enableCommandUris: true
+                }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+            this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.onMessage(message));
+        }
+        
+        this.update();
+    }
+    
+    private isSameRun(a: PanelEntry, b: PanelEntry): boolean {
+        // Restored outputs are new objects, so also match them by output and time
+        return a.run.result === b.run.result
+            || (a.outputId !== undefined && a.outputId === b.outputId && a.run.timestamp === b.run.timestamp);
+    }
+    
+    private update(): void {
+        if (!this.panel) {
+            return;
+        }
+        
+        const failed = this.getSelectedEntries().some(({ run }) => !run.result.success);
+        this.panel.title = failed && this.selected !== ALL_RUNS_TAB ? 'Command Error' : 'Command Output';
+        this.panel.webview.html = this.getHtml();
+    }
+    
+    private getSelectedEntries(): PanelEntry[] {
+        return this.selected === ALL_RUNS_TAB ? this.batch?.entries ?? [] : [this.entries[this.selected]];
+    }
+    
+    private getSelectedOutput(): string {
+        if (this.selected !== ALL_RUNS_TAB) {
+            return this.entries[this.selected].run.result.stdout;
+        }
+        
+        // Each run's output under the input it ran on
+        return this.getSelectedEntries().map(({ run }) => `$ ${run.input}\n${run.result.stdout}`).join('\n');
+    }
+    
+    private async onMessage(message: PanelMessage): Promise<void> {
+        switch (message.type) {
+            case 'select':
+                if (message.index !== undefined && (message.index === ALL_RUNS_TAB ? this.batch : this.entries[message.index])) {
+                    this.selected = message.index;
+                    this.update();
+                }
+                return;
+            case 'copy':
+                await vscode.env.clipboard.writeText(this.getSelectedOutput());
+                vscode.window.setStatusBarMessage('Command output copied to clipboard', 3000);
+                return;
+            case 'save':
+                await this.save(this.getSelectedOutput());
+                return;
+        }
+    }
+    
+    private async save(stdout: string): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `command-output.${getFileExtension(detectOutputLanguage(stdout))}`;
+        
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined
+        });
+        if (!target) {
+            return;
+        }
+        
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(stdout, 'utf8'));
+            vscode.window.setStatusBarMessage(`Command output saved to ${vscode.workspace.asRelativePath(target)}`, 3000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save command output: ${error}`);
+        }
+    }
+    
+    private getTabsHtml(): string {
+        const allRunsTab = this.batch
+            ? `<button class="tab${this.selected === ALL_RUNS_TAB ? ' active' : ''}" data-tab="${ALL_RUNS_TAB}" title="${escapeHtml(this.batch.summary)}">`
+                + `All runs (${this.batch.entries.length})</button>`
+            : '';
+        
+        return allRunsTab + this.entries.map(({ run }, index) => {
+            const status = getOutputStatus(run.result);
+            const icon = status === 'cancelled' ? '⏹️' : status === 'error' ? '❌' : '✅';
+            const input = run.input.replace(/\s+/g, ' ').trim();
+            const label = input.length > MAX_TAB_LABEL_LENGTH ? input.substring(0, MAX_TAB_LABEL_LENGTH) + '…' : input;
+            const time = new Date(run.timestamp).toLocaleTimeString();
+            
+            return `<button class="tab${index === this.selected ? ' active' : ''}" data-tab="${index}" title="${escapeHtml(`${run.input}\n${run.result.command}`)}">`
+                + `${icon} ${escapeHtml(label)} <span class="time">${time}</span></button>`;
+        }).join('');
+    }
+    
+    private getRunHtml(result: CommandResult): { headerHtml: string; outputHtml: string } {
+        // JSON is shown as a foldable tree, other output with its links and colors
+        const json = detectOutputLanguage(result.stdout) === 'json' ? JSON.parse(result.stdout) : undefined;
+        const stdoutHtml = json !== undefined
+            ? `<div class="json-tree">${renderJsonTree(json)}</div>`
+            : `<pre>${result.stdout ? renderOutputHtml(result.stdout) : '<i>(no output)</i>'}</pre>`;
+        
+        const details = [
+            `Exit code: ${result.exitCode ?? '-'}`,
+            result.signal ? `Signal: ${result.signal}` : '',
+            `Duration: ${formatDuration(result.durationMs)}`,
+            result.truncated ? 'Output truncated by size limit' : ''
+        ].filter(detail => detail.length > 0);
+        
+        return {
+            headerHtml: `<div class="details">${escapeHtml(result.command)}<br>${details.map(escapeHtml).join(' &middot; ')}</div>`
+                + (!result.success && result.error ? `<div class="error">${escapeHtml(result.error)}</div>` : ''),
+            outputHtml: stdoutHtml
+                + (result.stderr ? `<details class="stderr" ${result.stdout ? '' : 'open'}><summary>stderr</summary><pre>${renderOutputHtml(result.stderr)}</pre></details>` : '')
+        };
+    }
+    
+    private getAllRunsHtml(batch: RunBatch): { headerHtml: string; outputHtml: string } {
+        const rows = batch.entries.map(({ run: { input, result } }) => {
+            const status = getOutputStatus(result);
+            const icon = status === 'cancelled' ? '⏹️' : status === 'error' ? '❌' : '✅';
+            const output = result.success || result.stdout ? result.stdout : result.error ?? '';
+            
+            return `<tr class="${result.success ? '' : 'failed'}">`
+                + `<td>${icon}</td>`
+                + `<td><code>${escapeHtml(input)}</code></td>`
+                + `<td>${result.exitCode ?? '-'}</td>`
+                + `<td>${formatDuration(result.durationMs)}</td>`
+                + `<td><pre>${renderOutputHtml(output)}</pre></td>`
+                + '</tr>';
+        }).join('');
+        
+        return {
+            headerHtml: `<div class="details">${escapeHtml(batch.summary)}</div>`,
+            outputHtml: '<table class="runs"><tr><th></th><th>Input</th><th>Exit</th><th>Duration</th><th>Output</th></tr>'
+                + `${rows}</table>`
+        };
+    }
+    
+    private getHtml(): string {
+        const entry = this.selected === ALL_RUNS_TAB ? undefined : this.entries[this.selected];
+        const { headerHtml, outputHtml } = entry ? this.getRunHtml(entry.run.result) : this.getAllRunsHtml(this.batch!);
+        const isError = entry !== undefined && !entry.run.result.success;
+        
+        const backgroundColor = isError ? '#3d1f1f' : '#1e1e1e';
+        const textColor = isError ? '#f48771' : '#d4d4d4';
+        const title = isError ? 'Error' : 'Output';
+        
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+        body {
+            background-color: ${backgroundColor};
+            color: ${textColor};
+            font-family: 'Courier New', monospace;
+            padding: 0 20px 20px;
+            margin: 0;
+        }
+        .header {
+            position: sticky;
+            top: 0;
+            background-color: ${backgroundColor};
+            padding-top: 12px;
+            margin-bottom: 16px;
+        }
+        table.runs {
+            border-collapse: collapse;
+            width: 100%;
+        }
+        table.runs th, table.runs td {
+            text-align: left;
+            vertical-align: top;
+            padding: 6px 10px;
+            border-bottom: 1px solid #3e3e3e;
+        }
+        table.runs th {
+            color: #9cdcfe;
+        }
+        table.runs tr.failed td {
+            color: #f48771;
+        }
+        .tabs {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            border-bottom: 1px solid #3e3e3e;
+        }
+        .tab {
+            background: none;
+            border: none;
+            border-bottom: 2px solid transparent;
+            color: #888;
+            cursor: pointer;
+            font-family: inherit;
+            padding: 6px 10px;
+        }
+        .tab.active {
+            border-bottom-color: #3794ff;
+            color: #d4d4d4;
+        }
+        .tab .time {
+            color: #666;
+            font-size: 11px;
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 8px 0;
+        }
+        .toolbar input {
+            background-color: #3c3c3c;
+            border: 1px solid #3c3c3c;
+            color: #d4d4d4;
+            padding: 4px 6px;
+            width: 220px;
+        }
+        .toolbar button {
+            background-color: #3a3d41;
+            border: none;
+            color: #d4d4d4;
+            cursor: pointer;
+            padding: 4px 10px;
+        }
+        .toolbar button.active {
+            background-color: #0e639c;
+        }
+        .match-count {
+            color: #888;
+            font-size: 12px;
+            min-width: 70px;
+        }
+        .spacer {
+            flex: 1;
+        }
+        pre {
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            margin: 0;
+            font-size: 14px;
+            line-height: 1.5;
+        }
+        body.nowrap pre {
+            white-space: pre;
+            word-wrap: normal;
+            overflow-x: auto;
+        }
+        a {
+            color: #3794ff;
+        }
+        mark {
+            background-color: #623315;
+            color: inherit;
+        }
+        mark.current {
+            background-color: #a8692e;
+        }
+        .details {
+            color: #888;
+            font-size: 12px;
+        }
+        .error {
+            margin-top: 8px;
+            color: #f48771;
+        }
+        details.stderr {
+            margin-top: 20px;
+        }
+        details.stderr > summary {
+            cursor: pointer;
+            color: #cca700;
+            margin-bottom: 8px;
+        }
+        .json-tree {
+            font-size: 14px;
+            line-height: 1.5;
+        }
+        .json-tree summary {
+            cursor: pointer;
+        }
+        .json-children {
+            padding-left: 20px;
+        }
+        .json-count {
+            color: #888;
+            font-style: italic;
+        }
+        .json-key {
+            color: #9cdcfe;
+        }
+        .json-string {
+            color: #ce9178;
+        }
+        .json-number {
+            color: #b5cea8;
+        }
+        .json-boolean, .json-null {
+            color: #569cd6;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="tabs">${this.getTabsHtml()}</div>
+        <div class="toolbar">
+            <input id="search" type="text" placeholder="Search (Enter for next)">
+            <button id="previous" title="Previous match">↑</button>
+            <button id="next" title="Next match">↓</button>
+            <span id="matchCount" class="match-count"></span>
+            <span class="spacer"></span>
+            <button id="wrap" title="Toggle line wrapping">Wrap</button>
+            <button id="copy">Copy</button>
+            <button id="save">Save...</button>
+        </div>
+        ${headerHtml}
+    </div>
+    <div id="output">
+        ${outputHtml}
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        // The page is rebuilt when another tab is selected, so keep the search and wrap settings in the webview state
+        const state = vscode.getState() || { query: '', wrap: true };
+        const output = document.getElementById('output');
+        const searchInput = document.getElementById('search');
+        const matchCount = document.getElementById('matchCount');
+        const wrapButton = document.getElementById('wrap');
+        let matches = [];
+        let current = -1;
+        
+        function saveState() {
+            vscode.setState(state);
+        }
+        
+        function applyWrap() {
+            document.body.classList.toggle('nowrap', !state.wrap);
+            wrapButton.classList.toggle('active', state.wrap);
+        }
+        
+        function clearMatches() {
+            for (const mark of output.querySelectorAll('mark')) {
+                mark.replaceWith(document.createTextNode(mark.textContent));
+            }
+            output.normalize();
+            matches = [];
+            current = -1;
+        }
+        
+        function search(query) {
+            clearMatches();
+            state.query = query;
+            saveState();
+            
+            if (query) {
+                const needle = query.toLowerCase();
+                const walker = document.createTreeWalker(output, NodeFilter.SHOW_TEXT);
+                const nodes = [];
+                while (walker.nextNode()) {
+                    nodes.push(walker.currentNode);
+                }
+                
+                for (const node of nodes) {
+                    const text = node.textContent;
+                    const lower = text.toLowerCase();
+                    let index = lower.indexOf(needle);
+                    if (index < 0) {
+                        continue;
+                    }
+                    
+                    const fragment = document.createDocumentFragment();
+                    let last = 0;
+                    while (index >= 0) {
+                        fragment.append(text.substring(last, index));
+                        const mark = document.createElement('mark');
+                        mark.textContent = text.substring(index, index + needle.length);
+                        fragment.append(mark);
+                        matches.push(mark);
+                        last = index + needle.length;
+                        index = lower.indexOf(needle, last);
+                    }
+                    fragment.append(text.substring(last));
+                    node.replaceWith(fragment);
+                }
+            }
+            
+            selectMatch(matches.length > 0 ? 0 : -1);
+        }
+        
+        function selectMatch(index) {
+            if (current >= 0) {
+                matches[current].classList.remove('current');
+            }
+            current = index;
+            
+            if (current >= 0) {
+                const mark = matches[current];
+                mark.classList.add('current');
+                // Unfold the JSON nodes and stderr section around the match
+                for (let element = mark.parentElement; element && element !== output; element = element.parentElement) {
+                    if (element.tagName === 'DETAILS') {
+                        element.open = true;
+                    }
+                }
+                mark.scrollIntoView({ block: 'center' });
+            }
+            
+            matchCount.textContent = matches.length > 0
+                ? (current + 1) + ' of ' + matches.length
+                : searchInput.value ? 'No results' : '';
+        }
+        
+        function step(offset) {
+            if (matches.length > 0) {
+                selectMatch((current + offset + matches.length) % matches.length);
+            }
+        }
+        
+        searchInput.addEventListener('input', () => search(searchInput.value));
+        searchInput.addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                step(event.shiftKey ? -1 : 1);
+            }
+        });
+        document.getElementById('previous').addEventListener('click', () => step(-1));
+        document.getElementById('next').addEventListener('click', () => step(1));
+        
+        wrapButton.addEventListener('click', () => {
+            state.wrap = !state.wrap;
+            saveState();
+            applyWrap();
+        });
+        document.getElementById('copy').addEventListener('click', () => vscode.postMessage({ type: 'copy' }));
+        document.getElementById('save').addEventListener('click', () => vscode.postMessage({ type: 'save' }));
+        
+        for (const tab of document.querySelectorAll('[data-tab]')) {
+            tab.addEventListener('click', () => vscode.postMessage({ type: 'select', index: Number(tab.dataset.tab) }));
+        }
+        
+        window.addEventListener('keydown', event => {
+            if ((event.ctrlKey || event.metaKey) && event.key === 'f') {
+                event.preventDefault();
+                searchInput.focus();
+                searchInput.select();
+            }
+        });
+        
+        applyWrap();
+        searchInput.value = state.query;
+        if (state.query) {
+            search(state.query);
+        }
+    </script>
+</body>
+</html>`;
+    }
+    
+    dispose(): void {
+        this.panel?.dispose();
+        this.entries = [];
+    }
+}
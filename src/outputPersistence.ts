@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CommandResult } from './commandExecutor';
+import { createOutputId, OutputRun, StoredOutput } from './hoverManager';
+
+// Each document is saved under its own key, so saving one document does not rewrite the others
+const OUTPUTS_KEY_PREFIX = 'commandOutputHover.outputs/';
+// Outputs used to be saved for all documents under one key
+const LEGACY_OUTPUTS_KEY = 'commandOutputHover.outputs';
+
+// Output beyond these lengths is dropped when saving; earlier runs only keep enough for the hover
+const MAX_SAVED_OUTPUT_LENGTH = 32 * 1024;
+const MAX_SAVED_HISTORY_OUTPUT_LENGTH = 4 * 1024;
+
+export interface SerializedOutput {
+    id: string;
+    result: CommandResult;
+    range: [number, number, number, number];
+    timestamp: number;
+    input: string;
+    prompts: Record<string, string>;
+    stale?: boolean;
+    fingerprint: string;
+    history?: OutputRun[];
+}
+
+/**
+ * Saves stored outputs to workspace state, keyed by document URI. Each output carries a
+ * fingerprint of the text it covers, so it is only restored onto unchanged text. Long
+ * outputs are saved truncated.
+ */
+export class OutputPersistence {
+    
+    constructor(private readonly state: vscode.Memento) {}
+    
+    static fingerprint(text: string): string {
+        return crypto.createHash('sha256').update(text).digest('hex');
+    }
+    
+    load(): Map<string, SerializedOutput[]> {
+        const saved = new Map(Object.entries(this.state.get<Record<string, SerializedOutput[]>>(LEGACY_OUTPUTS_KEY, {})));
+        if (saved.size > 0) {
+            this.migrateLegacyOutputs(saved).catch(error => {
+                console.error('Failed to migrate saved command outputs:', error);
+            });
+        }
+        
+        for (const key of this.state.keys()) {
+            if (key.startsWith(OUTPUTS_KEY_PREFIX)) {
+                saved.set(key.substring(OUTPUTS_KEY_PREFIX.length), this.state.get<SerializedOutput[]>(key, []));
+            }
+        }
+        
+        // Outputs saved before they had IDs get one now, so it stays the same while they are pending
+        return new Map([...saved].map(([uri, outputs]) => [
+            uri,
+            outputs.map(serialized => ({ ...serialized, id: serialized.id ?? createOutputId() }))
+        ]));
+    }
+    
+    async save(uri: string, outputs: SerializedOutput[]): Promise<void> {
+        const trimmed = outputs.map(serialized => ({
+            ...serialized,
+            result: this.trimResult(serialized.result, MAX_SAVED_OUTPUT_LENGTH),
+            history: serialized.history?.map(run => ({ ...run, result: this.trimResult(run.result, MAX_SAVED_HISTORY_OUTPUT_LENGTH) }))
+        }));
+        
+        await this.state.update(OUTPUTS_KEY_PREFIX + uri, trimmed.length > 0 ? trimmed : undefined);
+    }
+    
+    private trimResult(result: CommandResult, maxLength: number): CommandResult {
+        if (result.stdout.length <= maxLength && result.stderr.length <= maxLength) {
+            return result;
+        }
+        
+        return {
+            ...result,
+            stdout: result.stdout.substring(0, maxLength),
+            stderr: result.stderr.substring(0, maxLength),
+            truncated: true
+        };
+    }
+    
+    private async migrateLegacyOutputs(legacy: Map<string, SerializedOutput[]>): Promise<void> {
+        for (const [uri, outputs] of legacy) {
+            await this.save(uri, outputs);
+        }
+        await this.state.update(LEGACY_OUTPUTS_KEY, undefined);
+    }
+    
+    serialize(outputs: StoredOutput[]): SerializedOutput[] {
+        // Outputs without a fingerprint cannot be matched to their text again
+        return outputs
+            .filter(stored => stored.fingerprint !== undefined)
+            .map(stored => ({
+                id: stored.id,
+                result: stored.result,
+                range: [stored.range.start.line, stored.range.start.character, stored.range.end.line, stored.range.end.character],
+                timestamp: stored.timestamp,
+                input: stored.input,
+                prompts: stored.prompts,
+                stale: stored.stale,
+                fingerprint: stored.fingerprint!,
+                history: stored.history
+            }));
+    }
+    
+    restore(document: vscode.TextDocument, outputs: SerializedOutput[]): StoredOutput[] {
+        const restored: StoredOutput[] = [];
+        
+        for (const serialized of outputs) {
+            const range = document.validateRange(new vscode.Range(...serialized.range));
+            
+            // The document changed while it was closed; the output no longer belongs to this text
+            if (OutputPersistence.fingerprint(document.getText(range)) !== serialized.fingerprint) {
+                continue;
+            }
+            
+            restored.push({ ...serialized, range });
+        }
+        
+        return restored;
+    }
+    
+    /**
+     * Converts a saved output back without checking it against its document, e.g. for listing it.
+     */
+    deserialize(serialized: SerializedOutput): StoredOutput {
+        return { ...serialized, range: new vscode.Range(...serialized.range) };
+    }
+}
@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface OutputLink {
+    start: number;
+    end: number;
+    text: string;
+    // Opened by clicking the link; file locations go through commandOutputHover.openLocation
+    href: string;
+}
+
+interface AnsiStyle {
+    foreground?: string;
+    background?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+interface AnsiSegment {
+    text: string;
+    style: AnsiStyle;
+}
+
+// The default dark terminal palette, normal colors followed by bright ones
+const ANSI_COLORS = [
+    '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+    '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff'
+];
+
+const MAX_JSON_OPEN_DEPTH = 2;
+
+const SGR_PATTERN = /\x1b\[([0-9;]*)m/g;
+// Other escape sequences (cursor movement, OSC hyperlinks, sequences cut off by truncation) carry nothing to show
+const OTHER_ESCAPE_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-9;?]*$|\x1b/g;
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/g;
+const FILE_LOCATION_PATTERN = /(^|[\s('"`=])((?:[A-Za-z]:)?[\w.~@\-/\\]*[\w\-]\.[A-Za-z0-9]+):(\d+)(?::(\d+))?/g;
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
+
+/**
+ * Wraps text in a markdown code span that no backtick in the text can close.
+ */
+export function inlineCode(text: string): string {
+    const singleLine = text.replace(/\r?\n/g, ' ');
+    const longestRun = Math.max(0, ...(singleLine.match(/`+/g) ?? []).map(run => run.length));
+    const ticks = '`'.repeat(longestRun + 1);
+    const padding = singleLine.startsWith('`') || singleLine.endsWith('`') ? ' ' : '';
+    return `${ticks}${padding}${singleLine}${padding}${ticks}`;
+}
+
+export function hasAnsiCodes(text: string): boolean {
+    return text.includes('\x1b');
+}
+
+export function stripAnsiCodes(text: string): string {
+    return text.replace(SGR_PATTERN, '').replace(OTHER_ESCAPE_PATTERN, '');
+}
+
+/**
+ * Finds URLs and file locations (`path/to/file.ts:42:7`) in plain text. Files are only
+ * looked up when a link is opened, since output can name thousands of them.
+ */
+export function findLinks(text: string): OutputLink[] {
+    const links: OutputLink[] = [];
+    
+    for (const match of text.matchAll(URL_PATTERN)) {
+        // Trailing punctuation usually ends the sentence rather than the URL
+        const url = match[0].replace(/[.,;:!?)\]}]+$/, '');
+        links.push({ start: match.index!, end: match.index! + url.length, text: url, href: url });
+    }
+    
+    // URLs are found first and in order, so one pointer finds the URLs a location could overlap
+    const urlCount = links.length;
+    let urlIndex = 0;
+    for (const match of text.matchAll(FILE_LOCATION_PATTERN)) {
+        const start = match.index! + match[1].length;
+        const end = match.index! + match[0].length;
+        while (urlIndex < urlCount && links[urlIndex].end <= start) {
+            urlIndex++;
+        }
+        if (urlIndex < urlCount && links[urlIndex].start < end) {
+            continue;
+        }
+        
+        const args = { path: match[2], line: Number(match[3]), column: match[4] ? Number(match[4]) : undefined };
+        links.push({
+            start,
+            end,
+            text: text.substring(start, end),
+            href: `command:commandOutputHover.openLocation?${encodeURIComponent(JSON.stringify(args))}`
+        });
+    }
+    
+    return links.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds a file named in command output. Relative paths are resolved against the workspace folders.
+ */
+export async function resolveWorkspaceFile(filePath: string): Promise<vscode.Uri | undefined> {
+    const candidates = path.isAbsolute(filePath)
+        ? [vscode.Uri.file(filePath)]
+        : (vscode.workspace.workspaceFolders ?? []).map(folder => vscode.Uri.joinPath(folder.uri, filePath));
+    
+    for (const candidate of candidates) {
+        try {
+            const stat = await vscode.workspace.fs.stat(candidate);
+            if (stat.type & vscode.FileType.File) {
+                return candidate;
+            }
+        } catch {
+            // Not in this folder
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Renders command output as HTML: ANSI colors become styled spans and, unless disabled,
+ * URLs and file locations become links. The span styles stay within what hovers allow.
+ */
+export function renderOutputHtml(output: string, linkify = true): string {
+    const segments = parseAnsi(output);
+    const plain = segments.map(segment => segment.text).join('');
+    const links = linkify ? findLinks(plain) : [];
+    
+    // Cut the text wherever a style or a link starts or ends
+    const cuts = new Set([0, plain.length]);
+    let offset = 0;
+    for (const segment of segments) {
+        offset += segment.text.length;
+        cuts.add(offset);
+    }
+    for (const link of links) {
+        cuts.add(link.start);
+        cuts.add(link.end);
+    }
+    const positions = [...cuts].sort((a, b) => a - b);
+    
+    let html = '';
+    let openLink: OutputLink | undefined;
+    let linkIndex = 0;
+    let segmentIndex = 0;
+    let segmentEnd = segments[0]?.text.length ?? 0;
+    
+    for (let i = 0; i < positions.length - 1; i++) {
+        const [from, to] = [positions[i], positions[i + 1]];
+        while (from >= segmentEnd && segmentIndex < segments.length - 1) {
+            segmentIndex++;
+            segmentEnd += segments[segmentIndex].text.length;
+        }
+        
+        // Links are sorted and do not overlap, so the current one is the first that has not ended yet
+        while (linkIndex < links.length && links[linkIndex].end <= from) {
+            linkIndex++;
+        }
+        const link = linkIndex < links.length && links[linkIndex].start <= from ? links[linkIndex] : undefined;
+        if (link !== openLink) {
+            html += openLink ? '</a>' : '';
+            html += link ? `<a href="${escapeHtml(link.href)}" title="${escapeHtml(link.text)}">` : '';
+            openLink = link;
+        }
+        
+        html += applyStyle(escapeHtml(plain.substring(from, to)), segments[segmentIndex].style);
+    }
+    
+    return html + (openLink ? '</a>' : '');
+}
+
+/**
+ * Renders a parsed JSON value as nested <details> elements, so that it can be folded without scripts.
+ */
+export function renderJsonTree(value: unknown, key?: string, depth = 0): string {
+    const label = key === undefined ? '' : `<span class="json-key">${escapeHtml(JSON.stringify(key))}</span>: `;
+    
+    if (value === null || typeof value !== 'object') {
+        return `<div class="json-entry">${label}${renderJsonValue(value)}</div>`;
+    }
+    
+    const entries = Array.isArray(value)
+        ? value.map((item): [string | undefined, unknown] => [undefined, item])
+        : Object.entries(value);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+    
+    if (entries.length === 0) {
+        return `<div class="json-entry">${label}${open}${close}</div>`;
+    }
+    
+    const count = `${entries.length} ${Array.isArray(value) ? 'item' : 'key'}${entries.length === 1 ? '' : 's'}`;
+    const children = entries.map(([childKey, child]) => renderJsonTree(child, childKey, depth + 1)).join('');
+    return `<details class="json-node"${depth < MAX_JSON_OPEN_DEPTH ? ' open' : ''}>`
+        + `<summary>${label}${open} <span class="json-count">${count}</span> ${close}</summary>`
+        + `<div class="json-children">${children}</div></details>`;
+}
+
+function renderJsonValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return `<span class="json-string">"${renderOutputHtml(value)}"</span>`;
+    }
+    
+    const type = value === null ? 'null' : typeof value === 'boolean' ? 'boolean' : 'number';
+    return `<span class="json-${type}">${escapeHtml(String(value))}</span>`;
+}
+
+function parseAnsi(output: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    let style: AnsiStyle = {};
+    let lastIndex = 0;
+    
+    for (const match of output.matchAll(SGR_PATTERN)) {
+        segments.push({ text: output.substring(lastIndex, match.index), style });
+        style = applySgr(style, match[1]);
+        lastIndex = match.index! + match[0].length;
+    }
+    segments.push({ text: output.substring(lastIndex), style });
+    
+    return segments
+        .map(segment => ({ ...segment, text: segment.text.replace(OTHER_ESCAPE_PATTERN, '') }))
+        .filter(segment => segment.text.length > 0);
+}
+
+function applySgr(current: AnsiStyle, parameters: string): AnsiStyle {
+    const codes = parameters === '' ? [0] : parameters.split(';').map(Number);
+    let style = { ...current };
+    
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+        
+        if (code === 0) {
+            style = {};
+        } else if (code === 1) {
+            style.bold = true;
+        } else if (code === 3) {
+            style.italic = true;
+        } else if (code === 4) {
+            style.underline = true;
+        } else if (code === 22) {
+            style.bold = false;
+        } else if (code === 23) {
+            style.italic = false;
+        } else if (code === 24) {
+            style.underline = false;
+        } else if (code >= 30 && code <= 37) {
+            style.foreground = ANSI_COLORS[code - 30];
+        } else if (code >= 90 && code <= 97) {
+            style.foreground = ANSI_COLORS[code - 90 + 8];
+        } else if (code >= 40 && code <= 47) {
+            style.background = ANSI_COLORS[code - 40];
+        } else if (code >= 100 && code <= 107) {
+            style.background = ANSI_COLORS[code - 100 + 8];
+        } else if (code === 39) {
+            style.foreground = undefined;
+        } else if (code === 49) {
+            style.background = undefined;
+        } else if (code === 38 || code === 48) {
+            // Extended colors: 5;n picks from the 256-color palette, 2;r;g;b is a true color
+            let color: string | undefined;
+            if (codes[i + 1] === 5) {
+                color = getPaletteColor(codes[i + 2]);
+                i += 2;
+            } else if (codes[i + 1] === 2) {
+                color = toHex(codes[i + 2], codes[i + 3], codes[i + 4]);
+                i += 4;
+            }
+            if (code === 38) {
+                style.foreground = color;
+            } else {
+                style.background = color;
+            }
+        }
+    }
+    
+    return style;
+}
+
+function getPaletteColor(index: number): string | undefined {
+    if (index < 16) {
+        return ANSI_COLORS[index];
+    }
+    if (index < 232) {
+        const levels = [0, 95, 135, 175, 215, 255];
+        const cube = index - 16;
+        return toHex(levels[Math.floor(cube / 36)], levels[Math.floor(cube / 6) % 6], levels[cube % 6]);
+    }
+    if (index < 256) {
+        const gray = 8 + (index - 232) * 10;
+        return toHex(gray, gray, gray);
+    }
+    return undefined;
+}
+
+function toHex(...channels: number[]): string | undefined {
+    if (channels.some(channel => !Number.isInteger(channel) || channel < 0 || channel > 255)) {
+        return undefined;
+    }
+    return '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('');
+}
+
+function applyStyle(html: string, style: AnsiStyle): string {
+    // Hovers only keep spans whose style is exactly "color:...;background-color:...;"
+    const css = (style.foreground ? `color:${style.foreground};` : '')
+        + (style.background ? `background-color:${style.background};` : '');
+    
+    let styled = css ? `<span style="${css}">${html}</span>` : html;
+    if (style.bold) {
+        styled = `<b>${styled}</b>`;
+    }
+    if (style.italic) {
+        styled = `<i>${styled}</i>`;
+    }
+    if (style.underline) {
+        styled = `<u>${styled}</u>`;
+    }
+    return styled;
+}
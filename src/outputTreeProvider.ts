@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { formatDuration } from './commandExecutor';
+import { formatAge, getOutputStatus, HoverManager, OutputRun, OutputStatus, StoredOutput } from './hoverManager';
+
+export type OutputTreeElement =
+    | { kind: 'document'; uri: vscode.Uri }
+    | { kind: 'output'; uri: vscode.Uri; output: StoredOutput }
+    | { kind: 'run'; uri: vscode.Uri; output: StoredOutput; run: OutputRun; index: number };
+
+const STATUS_ICONS: Record<OutputStatus, vscode.ThemeIcon> = {
+    success: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    error: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    cancelled: new vscode.ThemeIcon('circle-slash')
+};
+
+const MAX_LABEL_LENGTH = 50;
+const MAX_TOOLTIP_LENGTH = 500;
+
+/**
+ * Lists stored outputs in the "Command Outputs" view: documents, then ranges, then the runs on each range.
+ */
+export class OutputTreeProvider implements vscode.TreeDataProvider<OutputTreeElement>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<OutputTreeElement | undefined>();
+    private readonly outputsChangeDisposable: vscode.Disposable;
+    
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    
+    constructor(private readonly hoverManager: HoverManager) {
+        this.outputsChangeDisposable = hoverManager.onDidChangeOutputs(() => this.changeEmitter.fire(undefined));
+    }
+    
+    getChildren(element?: OutputTreeElement): OutputTreeElement[] {
+        if (!element) {
+            return this.hoverManager.getAllOutputs()
+                .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+                .map(({ uri }) => ({ kind: 'document', uri }));
+        }
+        
+        if (element.kind === 'document') {
+            const document = this.hoverManager.getAllOutputs().find(({ uri }) => uri.toString() === element.uri.toString());
+            return (document?.outputs ?? [])
+                .slice()
+                .sort((a, b) => a.range.start.compareTo(b.range.start))
+                .map(output => ({ kind: 'output', uri: element.uri, output }));
+        }
+        
+        if (element.kind === 'output') {
+            return this.hoverManager.getRuns(element.output)
+                .map((run, index) => ({ kind: 'run', uri: element.uri, output: element.output, run, index }));
+        }
+        
+        return [];
+    }
+    
+    getTreeItem(element: OutputTreeElement): vscode.TreeItem {
+        switch (element.kind) {
+            case 'document': {
+                const item = new vscode.TreeItem(element.uri, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = path.dirname(vscode.workspace.asRelativePath(element.uri));
+                item.contextValue = 'document';
+                return item;
+            }
+            case 'output': {
+                const { output } = element;
+                const item = new vscode.TreeItem(
+                    this.toLabel(output.input),
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.description = `${output.result.profile} · ${formatAge(output.timestamp)}${output.stale ? ' · edited' : ''}`;
+                item.tooltip = this.formatTooltip(output, output.range);
+                item.iconPath = STATUS_ICONS[getOutputStatus(output.result)];
+                item.contextValue = 'output';
+                item.command = {
+                    command: 'commandOutputHover.outputs.reveal',
+                    title: 'Reveal',
+                    arguments: [element]
+                };
+                return item;
+            }
+            case 'run': {
+                const { run, index } = element;
+                const item = new vscode.TreeItem(new Date(run.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+                item.description = `${index === 0 ? 'latest · ' : ''}${formatDuration(run.result.durationMs)} · ${formatAge(run.timestamp)}`;
+                item.tooltip = this.formatTooltip(run, element.output.range);
+                item.iconPath = STATUS_ICONS[getOutputStatus(run.result)];
+                item.contextValue = 'run';
+                item.command = {
+                    command: 'commandOutputHover.outputs.reveal',
+                    title: 'Reveal',
+                    arguments: [element]
+                };
+                return item;
+            }
+        }
+    }
+    
+    private formatTooltip(run: OutputRun, range: vscode.Range): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${run.result.profile}** · line ${range.start.line + 1} · exit code ${run.result.exitCode ?? '-'}\n\n`);
+        const output = run.result.stdout || run.result.error || '(no output)';
+        tooltip.appendCodeblock(output.length > MAX_TOOLTIP_LENGTH ? output.substring(0, MAX_TOOLTIP_LENGTH) + '…' : output, 'text');
+        return tooltip;
+    }
+    
+    private toLabel(text: string): string {
+        const singleLine = text.replace(/\s+/g, ' ').trim();
+        return singleLine.length > MAX_LABEL_LENGTH ? singleLine.substring(0, MAX_LABEL_LENGTH) + '…' : singleLine;
+    }
+    
+    dispose(): void {
+        this.outputsChangeDisposable.dispose();
+        this.changeEmitter.dispose();
+    }
+}
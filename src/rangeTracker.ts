@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+
+export interface TrackedRange {
+    range: vscode.Range;
+    // Whether the text inside the range was edited
+    edited: boolean;
+}
+
+/**
+ * Moves a range through one content change. Returns undefined when the change removed
+ * the range's text entirely. Changes that touch the range only at its edges, such as
+ * typing right before or after it, leave its text unedited.
+ */
+export function updateRange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): TrackedRange | undefined {
+    const { start: changeStart, end: changeEnd } = change.range;
+    const insertedEnd = getInsertedEnd(changeStart, change.text);
+    
+    // Entirely after the range: nothing moves
+    if (changeStart.isAfterOrEqual(range.end)) {
+        return { range, edited: false };
+    }
+    
+    // Entirely before the range: shift it
+    if (changeEnd.isBeforeOrEqual(range.start)) {
+        return {
+            range: new vscode.Range(
+                shiftPosition(range.start, changeEnd, insertedEnd),
+                shiftPosition(range.end, changeEnd, insertedEnd)
+            ),
+            edited: false
+        };
+    }
+    
+    // The change covers the whole range: only replacing exactly the range keeps it
+    if (changeStart.isBeforeOrEqual(range.start) && changeEnd.isAfterOrEqual(range.end)) {
+        const replacedExactly = change.range.isEqual(range) && change.text.length > 0;
+        return replacedExactly ? { range: new vscode.Range(changeStart, insertedEnd), edited: true } : undefined;
+    }
+    
+    // Overlapping or inside: grow or shrink the range around the new text
+    const start = changeStart.isBefore(range.start) ? changeStart : range.start;
+    const end = changeEnd.isAfter(range.end) ? insertedEnd : shiftPosition(range.end, changeEnd, insertedEnd);
+    return { range: new vscode.Range(start, end), edited: true };
+}
+
+function getInsertedEnd(start: vscode.Position, text: string): vscode.Position {
+    const lines = text.split(/\r\n|\r|\n/);
+    
+    if (lines.length === 1) {
+        return start.translate(0, text.length);
+    }
+    
+    return new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+}
+
+function shiftPosition(position: vscode.Position, changeEnd: vscode.Position, insertedEnd: vscode.Position): vscode.Position {
+    // Positions on the last changed line move with the end of the inserted text
+    if (position.line === changeEnd.line) {
+        return new vscode.Position(insertedEnd.line, insertedEnd.character + position.character - changeEnd.character);
+    }
+    
+    return position.translate(insertedEnd.line - changeEnd.line, 0);
+}
@@ -0,0 +1,56 @@
+import { CommandResult } from './commandExecutor';
+import { CommandProfile } from './configManager';
+import { TemplateVariables } from './templateVariables';
+
+export interface CachedResult {
+    result: CommandResult;
+    timestamp: number;
+}
+
+export class ResultCache {
+    // Map iteration order doubles as least-recently-used order
+    private entries: Map<string, CachedResult> = new Map();
+    
+    /**
+     * Keys a run by everything that can change its result. The command text alone is not enough,
+     * since in env input mode it only names the variables that hold the values.
+     */
+    static createKey(command: string, input: string, profile: CommandProfile, variables: TemplateVariables): string {
+        const sorted = (values: Record<string, string> = {}) => Object.entries(values).sort(([a], [b]) => a.localeCompare(b));
+        return JSON.stringify([command, input, profile.cwd ?? '', sorted(profile.env), sorted(variables)]);
+    }
+    
+    get(key: string, ttlMs: number): CachedResult | undefined {
+        const cached = this.entries.get(key);
+        
+        if (!cached) {
+            return undefined;
+        }
+        
+        if (Date.now() - cached.timestamp >= ttlMs) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        
+        // Move to the end so it is evicted last
+        this.entries.delete(key);
+        this.entries.set(key, cached);
+        return cached;
+    }
+    
+    set(key: string, result: CommandResult, maxEntries: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { result, timestamp: Date.now() });
+        
+        while (this.entries.size > maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+    
+    clear(): number {
+        const count = this.entries.size;
+        this.entries.clear();
+        return count;
+    }
+}
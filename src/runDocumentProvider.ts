@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { OutputRun } from './hoverManager';
+import { detectOutputLanguage, getFileExtension } from './outputLanguage';
+import { stripAnsiCodes } from './outputRenderer';
+
+/**
+ * Formats a run as editor text. Escape codes are dropped, since editors would show them verbatim.
+ */
+export function formatRunText(run: OutputRun): string {
+    const { result } = run;
+    
+    // stderr follows the output when there is any
+    const text = result.stderr
+        ? `${result.stdout}\n--- stderr ---\n${result.stderr}`
+        : result.stdout;
+    return stripAnsiCodes(text);
+}
+
+export function toPathLabel(input: string): string {
+    return input.replace(/[/\\\s]+/g, '_').substring(0, 40) || 'output';
+}
+
+/**
+ * Serves read-only snapshots of past runs, so that two runs can be opened side by side in a diff editor.
+ */
+export class RunDocumentProvider implements vscode.TextDocumentContentProvider {
+    static readonly SCHEME = 'command-output-history';
+    
+    private contents: Map<string, string> = new Map();
+    private nextId = 0;
+    
+    createUri(run: OutputRun): vscode.Uri {
+        const time = new Date(run.timestamp).toLocaleTimeString().replace(/[/\\:]/g, '-');
+        const extension = getFileExtension(detectOutputLanguage(run.result.stdout));
+        
+        // The extension lets the editor pick the language of the output
+        const uri = vscode.Uri.from({
+            scheme: RunDocumentProvider.SCHEME,
+            path: `/${this.nextId++}/${toPathLabel(run.input)} ${time}.${extension}`
+        });
+        this.contents.set(uri.toString(), formatRunText(run));
+        
+        return uri;
+    }
+    
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+    
+    onDocumentClosed(document: vscode.TextDocument): void {
+        if (document.uri.scheme === RunDocumentProvider.SCHEME) {
+            this.contents.delete(document.uri.toString());
+        }
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommandProfile } from './configManager';
+
+export type TemplateVariables = Record<string, string>;
+
+export const PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+const SIMPLE_PLACEHOLDERS = [
+    'input',
+    'file',
+    'relativeFile',
+    'fileDirname',
+    'workspaceFolder',
+    'line',
+    'column',
+    'languageId',
+    'selectionStartOffset',
+    'clipboard'
+];
+
+const PREFIXED_PLACEHOLDERS = ['env:', 'config:', 'prompt:', 'pick:'];
+
+const PROMPT_ANSWERS_KEY = 'commandOutputHover.promptAnswers';
+
+export function getPlaceholderNames(templates: string[]): string[] {
+    const names = new Set<string>();
+    
+    for (const template of templates) {
+        for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+            names.add(match[1]);
+        }
+    }
+    
+    return [...names];
+}
+
+export function isKnownPlaceholder(name: string): boolean {
+    return SIMPLE_PLACEHOLDERS.includes(name)
+        || PREFIXED_PLACEHOLDERS.some(prefix => name.startsWith(prefix) && name.length > prefix.length);
+}
+
+export function getProfileTemplates(profile: CommandProfile): string[] {
+    return [profile.commandTemplate, ...(profile.commandArgs ?? [])];
+}
+
+export function isPromptPlaceholder(name: string): boolean {
+    return name.startsWith('prompt:') || name.startsWith('pick:');
+}
+
+export function getPromptLabel(name: string): string {
+    // {{prompt:Label}} and {{pick:Label|optA|optB}}
+    return name.substring(name.indexOf(':') + 1).split('|')[0];
+}
+
+export function getPromptValues(variables: TemplateVariables): Record<string, string> {
+    const prompts: Record<string, string> = {};
+    
+    for (const [name, value] of Object.entries(variables)) {
+        if (isPromptPlaceholder(name)) {
+            prompts[getPromptLabel(name)] = value;
+        }
+    }
+    
+    return prompts;
+}
+
+/**
+ * Returns the path of the workspace folder containing the document, or of the first folder for files outside the workspace.
+ */
+export function getWorkspaceFolder(document: vscode.TextDocument): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+    return folder?.uri.fsPath;
+}
+
+export class TemplateVariableResolver {
+    
+    constructor(private readonly state: vscode.Memento) {}
+    
+    /**
+     * Asks for the {{prompt:...}} and {{pick:...}} values used by the profile's templates.
+     * Returns undefined when the user dismisses a prompt.
+     */
+    async resolvePrompts(profile: CommandProfile): Promise<TemplateVariables | undefined> {
+        const variables: TemplateVariables = {};
+        const answers = this.getAnswers(profile.name);
+        
+        for (const name of getPlaceholderNames(getProfileTemplates(profile)).filter(isPromptPlaceholder)) {
+            const answer = await this.promptForValue(name, answers[name]);
+            if (answer === undefined) {
+                return undefined;
+            }
+            variables[name] = answers[name] = answer;
+        }
+        
+        await this.saveAnswers(profile.name, answers);
+        return variables;
+    }
+    
+    /**
+     * Resolves the context placeholders used by the profile's templates for one selection.
+     */
+    async resolveContext(profile: CommandProfile, editor: vscode.TextEditor, selection: vscode.Selection): Promise<TemplateVariables> {
+        const variables: TemplateVariables = {};
+        
+        // Only resolve what the templates use, so e.g. the clipboard is not read needlessly
+        for (const name of getPlaceholderNames(getProfileTemplates(profile))) {
+            if (name === 'input' || isPromptPlaceholder(name)) {
+                continue;
+            }
+            
+            const value = await this.resolveVariable(name, editor, selection);
+            if (value !== undefined) {
+                variables[name] = value;
+            }
+        }
+        
+        return variables;
+    }
+    
+    private async promptForValue(name: string, lastAnswer: string | undefined): Promise<string | undefined> {
+        const label = getPromptLabel(name);
+        
+        if (name.startsWith('prompt:')) {
+            return vscode.window.showInputBox({
+                prompt: label,
+                value: lastAnswer,
+                ignoreFocusOut: true
+            });
+        }
+        
+        // Offer the last answer first
+        const options = name.split('|').slice(1).filter(option => option.length > 0);
+        const sorted = [...options].sort((a, b) => Number(b === lastAnswer) - Number(a === lastAnswer));
+        
+        const picked = await vscode.window.showQuickPick(
+            sorted.map(option => ({
+                label: option,
+                description: option === lastAnswer ? 'last used' : undefined
+            })),
+            { placeHolder: label, ignoreFocusOut: true }
+        );
+        
+        return picked?.label;
+    }
+    
+    private getAnswers(profileName: string): Record<string, string> {
+        const allAnswers = this.state.get<Record<string, Record<string, string>>>(PROMPT_ANSWERS_KEY, {});
+        return { ...allAnswers[profileName] };
+    }
+    
+    private async saveAnswers(profileName: string, answers: Record<string, string>): Promise<void> {
+        const allAnswers = this.state.get<Record<string, Record<string, string>>>(PROMPT_ANSWERS_KEY, {});
+        await this.state.update(PROMPT_ANSWERS_KEY, { ...allAnswers, [profileName]: answers });
+    }
+    
+    private async resolveVariable(name: string, editor: vscode.TextEditor, selection: vscode.Selection): Promise<string | undefined> {
+        const document = editor.document;
+        
+        if (name.startsWith('env:')) {
+            return process.env[name.substring('env:'.length)] ?? '';
+        }
+        
+        if (name.startsWith('config:')) {
+            const value = vscode.workspace.getConfiguration().get(name.substring('config:'.length));
+            if (value === undefined || value === null) {
+                return '';
+            }
+            return typeof value === 'string' ? value : JSON.stringify(value);
+        }
+        
+        switch (name) {
+            case 'file':
+                return document.uri.fsPath;
+            case 'relativeFile':
+                return vscode.workspace.asRelativePath(document.uri, false);
+            case 'fileDirname':
+                return path.dirname(document.uri.fsPath);
+            case 'workspaceFolder':
+                return getWorkspaceFolder(document) ?? '';
+            case 'line':
+                return String(selection.start.line + 1);
+            case 'column':
+                return String(selection.start.character + 1);
+            case 'languageId':
+                return document.languageId;
+            case 'selectionStartOffset':
+                return String(document.offsetAt(selection.start));
+            case 'clipboard':
+                return vscode.env.clipboard.readText();
+            default:
+                // Unknown placeholders are left in the command untouched
+                return undefined;
+        }
+    }
+}
@@ -0,0 +1,215 @@
+import * as assert from 'assert';
+import { CommandExecutor } from '../commandExecutor';
+import { CommandProfile, InputMode, ShellType } from '../configManager';
+
+const INPUTS: Record<string, string> = {
+    quotes: `it's a "quoted" \\'word\\'`,
+    newlines: 'line one\nline two\n\nline four\n',
+    unicode: 'naïve café — 日本語 🚀',
+    metacharacters: '$(echo injected) `echo injected` ${HOME} ; echo injected && exit 1 | cat > /dev/null * ~ !x'
+};
+
+function createProfile(overrides: Partial<CommandProfile>): CommandProfile {
+    return {
+        name: 'Test',
+        commandTemplate: 'echo {{input}}',
+        shellType: ShellType.Bash,
+        timeout: 10000,
+        maxOutputSize: 1024 * 1024,
+        killGracePeriod: 1000,
+        cacheTtl: 0,
+        inputMode: InputMode.Shell,
+        inputEnvVar: 'COMMAND_INPUT',
+        showInContextMenu: false,
+        ...overrides
+    };
+}
+
+suite('CommandExecutor input modes', () => {
+    const executor = new CommandExecutor();
+    
+    async function assertPassedThrough(profile: CommandProfile, expected: (input: string) => string = input => input): Promise<void> {
+        for (const [kind, input] of Object.entries(INPUTS)) {
+            const result = await executor.execute(input, profile);
+            assert.strictEqual(result.stderr, '', `stderr for ${kind}`);
+            assert.strictEqual(result.stdout, expected(input), `stdout for ${kind}`);
+            assert.strictEqual(result.success, true, `success for ${kind}`);
+        }
+    }
+    
+    suite('stdin', () => {
+        test('pipes the selection to the command unchanged', async () => {
+            await assertPassedThrough(createProfile({ inputMode: InputMode.Stdin, commandTemplate: 'cat' }));
+        });
+        
+        test('leaves the selection out of the command line', () => {
+            const profile = createProfile({ inputMode: InputMode.Stdin, commandTemplate: 'wc -c' });
+            assert.strictEqual(executor.describeCommand(INPUTS.metacharacters, profile), 'wc -c');
+        });
+    });
+    
+    suite('argv', () => {
+        test('passes the selection as one literal argument', async () => {
+            await assertPassedThrough(createProfile({
+                inputMode: InputMode.Argv,
+                commandArgs: ['printf', '%s', '{{input}}']
+            }));
+        });
+        
+        test('substitutes placeholders inside a larger argument', async () => {
+            await assertPassedThrough(createProfile({
+                inputMode: InputMode.Argv,
+                commandArgs: ['printf', '%s', '[{{input}}]']
+            }), input => `[${input}]`);
+        });
+        
+        test('reports a missing executable', async () => {
+            const profile = createProfile({ inputMode: InputMode.Argv, commandArgs: ['command-output-hover-missing', '{{input}}'] });
+            const result = await executor.execute('text', profile);
+            assert.strictEqual(result.success, false);
+            assert.match(result.error ?? '', /Command not found: command-output-hover-missing/);
+        });
+    });
+    
+    suite('env', () => {
+        test('references the variable from an unquoted placeholder', async () => {
+            await assertPassedThrough(createProfile({ inputMode: InputMode.Env, commandTemplate: 'printf %s {{input}}' }));
+        });
+        
+        test('steps out of single quotes around the placeholder', async () => {
+            await assertPassedThrough(createProfile({ inputMode: InputMode.Env, commandTemplate: "printf %s '{{input}}'" }));
+        });
+        
+        test('steps out of double quotes around the placeholder', async () => {
+            await assertPassedThrough(createProfile({ inputMode: InputMode.Env, commandTemplate: 'printf %s "<{{input}}>"' }), input => `<${input}>`);
+        });
+        
+        test('keeps the selection out of the command line', () => {
+            const profile = createProfile({ inputMode: InputMode.Env, commandTemplate: "printf %s '{{input}}' {{prompt:Name}}" });
+            assert.strictEqual(
+                executor.describeCommand(INPUTS.metacharacters, profile, { 'prompt:Name': 'answer' }),
+                `printf %s ''"$COMMAND_INPUT"'' "$COMMAND_INPUT_PROMPT_NAME"`
+            );
+        });
+        
+        test('uses string operators for quoted PowerShell placeholders', () => {
+            const profile = createProfile({ inputMode: InputMode.Env, shellType: ShellType.Pwsh, commandTemplate: `('{{input}}').Length; "<{{input}}>"; {{input}}` });
+            assert.strictEqual(
+                executor.describeCommand('text', profile),
+                `(''+$env:COMMAND_INPUT+'').Length; "<$($env:COMMAND_INPUT)>"; $env:COMMAND_INPUT`
+            );
+        });
+    });
+});
+
+suite('CommandExecutor shell quoting', () => {
+    const executor = new CommandExecutor();
+    const templates = ['printf %s {{input}}', "printf %s '{{input}}'", 'printf %s "{{input}}"', 'printf %s "a {{input}} b"'];
+    
+    for (const shellType of [ShellType.Bash, ShellType.Sh]) {
+        test(`passes every selection through ${shellType} as one word`, async () => {
+            for (const commandTemplate of templates) {
+                const profile = createProfile({ shellType, commandTemplate });
+                for (const [kind, input] of Object.entries(INPUTS)) {
+                    const result = await executor.execute(input, profile);
+                    const expected = commandTemplate.includes('a {{input}} b') ? `a ${input} b` : input;
+                    assert.strictEqual(result.stdout, expected, `${kind} in ${commandTemplate}`);
+                    assert.strictEqual(result.success, true, `${kind} in ${commandTemplate}`);
+                }
+            }
+        });
+    }
+    
+    test('quotes POSIX values with single quotes', () => {
+        const profile = createProfile({ commandTemplate: `echo {{input}} '{{input}}' "{{input}}"` });
+        assert.strictEqual(executor.describeCommand(`it's $x`, profile), `echo 'it'\\''s $x' '''it'\\''s $x''' ""'it'\\''s $x'""`);
+    });
+    
+    test('escapes only backslashes and quotes for fish', () => {
+        const profile = createProfile({ shellType: ShellType.Fish, commandTemplate: `echo {{input}} "{{input}}"` });
+        assert.strictEqual(executor.describeCommand(`it's \\ "$x"`, profile), `echo 'it\\'s \\\\ "$x"' ""'it\\'s \\\\ "$x"'""`);
+    });
+    
+    test('escapes PowerShell values for the quotes they are in', () => {
+        const profile = createProfile({ shellType: ShellType.Pwsh, commandTemplate: `{{input}}; ('{{input}}').Length; "{{input}}"` });
+        assert.strictEqual(executor.describeCommand('it’s "$x" `n', profile), `'it’’s "$x" \`n'; ('it’’s "$x" \`n').Length; "it’s \`"\`$x\`" \`\`n"`);
+    });
+    
+    test('follows escaped quotes in the template', () => {
+        const profile = createProfile({ commandTemplate: `echo \\"{{input}}\\" 'a"b' {{input}}` });
+        assert.strictEqual(executor.describeCommand('x', profile), `echo \\"'x'\\" 'a"b' 'x'`);
+    });
+});
+
+suite('CommandExecutor process limits', function () {
+    this.timeout(10000);
+    const executor = new CommandExecutor();
+    
+    test('stops a command that floods output at maxOutputSize', async () => {
+        const profile = createProfile({ commandTemplate: 'yes {{input}}', maxOutputSize: 1000 });
+        const result = await executor.execute('flood', profile);
+        assert.strictEqual(result.stdout.length, 1000);
+        assert.strictEqual(result.truncated, true);
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.error, undefined);
+    });
+    
+    test('counts stderr towards maxOutputSize', async () => {
+        const profile = createProfile({ commandTemplate: 'yes {{input}} >&2', maxOutputSize: 500 });
+        const result = await executor.execute('flood', profile);
+        assert.strictEqual(result.stderr.length, 500);
+        assert.strictEqual(result.truncated, true);
+    });
+    
+    test('kills a command that ignores SIGTERM after the grace period', async () => {
+        const profile = createProfile({ commandTemplate: "trap '' TERM; echo {{input}}; sleep 30", timeout: 300, killGracePeriod: 300 });
+        const result = await executor.execute('started', profile);
+        assert.strictEqual(result.stdout, 'started\n');
+        assert.strictEqual(result.timedOut, true);
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.signal, 'SIGKILL');
+        assert.ok(result.durationMs < 5000, `took ${result.durationMs} ms`);
+    });
+    
+    test('stops a command that exits on SIGTERM without escalating', async () => {
+        const profile = createProfile({ commandTemplate: 'sleep 30 # {{input}}', timeout: 300, killGracePeriod: 5000 });
+        const result = await executor.execute('x', profile);
+        assert.strictEqual(result.timedOut, true);
+        assert.strictEqual(result.signal, 'SIGTERM');
+        assert.ok(result.durationMs < 5000, `took ${result.durationMs} ms`);
+    });
+    
+    test('kills background children that outlive the shell on timeout', async () => {
+        const profile = createProfile({ commandTemplate: `(trap '' TERM; sleep 30) & echo started {{input}}`, timeout: 500, killGracePeriod: 300 });
+        const result = await executor.execute('x', profile);
+        assert.strictEqual(result.stdout, 'started x\n');
+        assert.strictEqual(result.timedOut, true);
+        assert.ok(result.durationMs < 3000, `took ${result.durationMs} ms`);
+    });
+    
+    test('stops background children that outlive the shell at maxOutputSize', async () => {
+        const profile = createProfile({ commandTemplate: 'sleep 30 & yes {{input}} | head -c 2000 &', maxOutputSize: 1000, killGracePeriod: 300 });
+        const result = await executor.execute('flood', profile);
+        assert.strictEqual(result.truncated, true);
+        assert.ok(result.durationMs < 3000, `took ${result.durationMs} ms`);
+    });
+    
+    test('kills the command when the caller cancels', async () => {
+        const controller = new AbortController();
+        const profile = createProfile({ commandTemplate: 'sleep 30 # {{input}}' });
+        setTimeout(() => controller.abort(), 200);
+        const result = await executor.execute('x', profile, { signal: controller.signal });
+        assert.strictEqual(result.cancelled, true);
+        assert.strictEqual(result.success, false);
+    });
+    
+    test('kills background children that outlive the shell when the caller cancels', async () => {
+        const controller = new AbortController();
+        const profile = createProfile({ commandTemplate: `(trap '' TERM; sleep 30) & echo started {{input}}`, killGracePeriod: 300 });
+        setTimeout(() => controller.abort(), 200);
+        const result = await executor.execute('x', profile, { signal: controller.signal });
+        assert.strictEqual(result.cancelled, true);
+        assert.strictEqual(result.stdout, 'started x\n');
+        assert.ok(result.durationMs < 3000, `took ${result.durationMs} ms`);
+    });
+});
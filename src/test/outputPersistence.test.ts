@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { OutputPersistence, SerializedOutput } from '../outputPersistence';
+
+class MemoryMemento implements vscode.Memento {
+    readonly values = new Map<string, unknown>();
+    
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+    
+    get<T>(key: string, defaultValue?: T): T {
+        return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+    }
+    
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+}
+
+function createOutput(stdout: string, history: string[] = []): SerializedOutput {
+    const result = { success: true, stdout, stderr: '', exitCode: 0, signal: null, durationMs: 1, truncated: false, profile: 'Test', command: 'cmd' };
+    return {
+        id: 'id-1',
+        result,
+        range: [0, 0, 0, 4],
+        timestamp: 1,
+        input: 'text',
+        prompts: {},
+        fingerprint: OutputPersistence.fingerprint('text'),
+        history: history.map(output => ({ result: { ...result, stdout: output }, timestamp: 0, input: 'text', prompts: {} }))
+    };
+}
+
+suite('OutputPersistence', () => {
+    test('saves each document under its own key and loads them back', async () => {
+        const state = new MemoryMemento();
+        const persistence = new OutputPersistence(state);
+        await persistence.save('file:///a.ts', [createOutput('a')]);
+        await persistence.save('file:///b.ts', [createOutput('b')]);
+        
+        const loaded = persistence.load();
+        assert.deepStrictEqual([...loaded.keys()].sort(), ['file:///a.ts', 'file:///b.ts']);
+        assert.strictEqual(loaded.get('file:///b.ts')?.[0].result.stdout, 'b');
+    });
+    
+    test('removes the key of a document without outputs', async () => {
+        const state = new MemoryMemento();
+        const persistence = new OutputPersistence(state);
+        await persistence.save('file:///a.ts', [createOutput('a')]);
+        await persistence.save('file:///a.ts', []);
+        assert.deepStrictEqual(state.keys(), []);
+    });
+    
+    test('truncates long outputs, and earlier runs further', async () => {
+        const state = new MemoryMemento();
+        const persistence = new OutputPersistence(state);
+        const long = 'x'.repeat(100 * 1024);
+        await persistence.save('file:///a.ts', [createOutput(long, [long])]);
+        
+        const [saved] = persistence.load().get('file:///a.ts')!;
+        assert.strictEqual(saved.result.stdout.length, 32 * 1024);
+        assert.strictEqual(saved.result.truncated, true);
+        assert.strictEqual(saved.history?.[0].result.stdout.length, 4 * 1024);
+    });
+    
+    test('moves outputs saved under the single legacy key to per-document keys', async () => {
+        const state = new MemoryMemento();
+        const { id, ...legacy } = createOutput('old');
+        state.values.set('commandOutputHover.outputs', { 'file:///a.ts': [legacy] });
+        
+        const loaded = new OutputPersistence(state).load();
+        assert.strictEqual(loaded.get('file:///a.ts')?.[0].result.stdout, 'old');
+        assert.ok(loaded.get('file:///a.ts')?.[0].id, 'legacy output got an ID');
+        assert.notStrictEqual(loaded.get('file:///a.ts')?.[0].id, id);
+        
+        await new Promise(resolve => setImmediate(resolve));
+        assert.deepStrictEqual(state.keys(), ['commandOutputHover.outputs/file:///a.ts']);
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { findLinks, inlineCode, renderOutputHtml, stripAnsiCodes } from '../outputRenderer';
+
+function decodeLocation(href: string): unknown {
+    return JSON.parse(decodeURIComponent(href.substring('command:commandOutputHover.openLocation?'.length)));
+}
+
+suite('outputRenderer', () => {
+    test('finds URLs without trailing punctuation', () => {
+        const [link] = findLinks('See https://example.com/docs?a=1.');
+        assert.strictEqual(link.href, 'https://example.com/docs?a=1');
+    });
+    
+    test('links file locations without looking the file up', () => {
+        const [link] = findLinks('src/missing/app.ts:42:7: error TS2304');
+        assert.strictEqual(link.text, 'src/missing/app.ts:42:7');
+        assert.deepStrictEqual(decodeLocation(link.href), { path: 'src/missing/app.ts', line: 42, column: 7 });
+    });
+    
+    test('does not link file locations inside URLs', () => {
+        const links = findLinks('http://host/a.ts:10 then b.ts:3');
+        assert.deepStrictEqual(links.map(link => link.text), ['http://host/a.ts:10', 'b.ts:3']);
+    });
+    
+    test('renders ANSI colors and links together', () => {
+        const html = renderOutputHtml('\x1b[31ma.ts:1\x1b[0m ok');
+        assert.strictEqual(html, `<a href="${findLinks('a.ts:1')[0].href.replace(/"/g, '&quot;')}" title="a.ts:1"><span style="color:#cd3131;">a.ts:1</span></a> ok`);
+    });
+    
+    test('strips escape sequences', () => {
+        assert.strictEqual(stripAnsiCodes('\x1b[1;32mdone\x1b[0m\x1b[2K'), 'done');
+    });
+    
+    test('keeps backticks in inline code from closing the span', () => {
+        assert.strictEqual(inlineCode('a`](command:x) ``b'), '```a`](command:x) ``b```');
+        assert.strictEqual(inlineCode('`x`\ny'), '`` `x` y ``');
+    });
+    
+    test('renders large grep output with many locations quickly', () => {
+        const output = Array.from({ length: 20000 }, (_, i) => `src/file${i}.ts:${i + 1}:    const value = ${i};`).join('\n');
+        const started = Date.now();
+        const html = renderOutputHtml(output);
+        assert.strictEqual(html.split('<a ').length - 1, 20000);
+        assert.ok(Date.now() - started < 2000, `took ${Date.now() - started} ms`);
+    });
+});
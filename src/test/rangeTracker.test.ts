@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TrackedRange, updateRange } from '../rangeTracker';
+
+function range(startLine: number, startCharacter: number, endLine: number, endCharacter: number): vscode.Range {
+    return new vscode.Range(new vscode.Position(startLine, startCharacter), new vscode.Position(endLine, endCharacter));
+}
+
+function change(replaced: vscode.Range, text: string): vscode.TextDocumentContentChangeEvent {
+    return { range: replaced, text, rangeOffset: 0, rangeLength: 0 };
+}
+
+function assertTracked(actual: TrackedRange | undefined, expected: vscode.Range, edited: boolean): void {
+    assert.ok(actual, 'range was dropped');
+    assert.deepStrictEqual(
+        [actual.range.start.line, actual.range.start.character, actual.range.end.line, actual.range.end.character, actual.edited],
+        [expected.start.line, expected.start.character, expected.end.line, expected.end.character, edited]
+    );
+}
+
+suite('updateRange', () => {
+    // The tracked text is "world" in "hello world!" on line 2
+    const tracked = range(2, 6, 2, 11);
+    
+    suite('before the range', () => {
+        test('shifts the range on its line when text is inserted', () => {
+            assertTracked(updateRange(tracked, change(range(2, 0, 2, 0), '>> ')), range(2, 9, 2, 14), false);
+        });
+        
+        test('shifts the range on its line when text is deleted', () => {
+            assertTracked(updateRange(tracked, change(range(2, 0, 2, 6), '')), range(2, 0, 2, 5), false);
+        });
+        
+        test('shifts the range down when lines are inserted above', () => {
+            assertTracked(updateRange(tracked, change(range(0, 3, 0, 3), 'a\nb\n')), range(4, 6, 4, 11), false);
+        });
+        
+        test('moves the range up and along when a multi-line deletion ends on its line', () => {
+            assertTracked(updateRange(tracked, change(range(0, 4, 2, 6), '')), range(0, 4, 0, 9), false);
+        });
+        
+        test('moves the range onto the last inserted line when a multi-line insert ends on its line', () => {
+            assertTracked(updateRange(tracked, change(range(2, 2, 2, 2), 'x\ny\nzz')), range(4, 6, 4, 11), false);
+        });
+        
+        test('leaves the text unedited when typing right before it', () => {
+            assertTracked(updateRange(tracked, change(range(2, 6, 2, 6), 'new ')), range(2, 10, 2, 15), false);
+        });
+    });
+    
+    suite('after the range', () => {
+        test('keeps the range when text is inserted after it', () => {
+            assertTracked(updateRange(tracked, change(range(2, 11, 2, 11), '!!')), tracked, false);
+        });
+        
+        test('keeps the range when later lines are deleted', () => {
+            assertTracked(updateRange(tracked, change(range(3, 0, 6, 0), '')), tracked, false);
+        });
+        
+        test('keeps the range when lines are inserted below it', () => {
+            assertTracked(updateRange(tracked, change(range(2, 12, 2, 12), '\n\n')), tracked, false);
+        });
+    });
+    
+    suite('inside the range', () => {
+        test('grows the range around inserted text', () => {
+            assertTracked(updateRange(tracked, change(range(2, 8, 2, 8), 'XY')), range(2, 6, 2, 13), true);
+        });
+        
+        test('shrinks the range when part of its text is deleted', () => {
+            assertTracked(updateRange(tracked, change(range(2, 7, 2, 9), '')), range(2, 6, 2, 9), true);
+        });
+        
+        test('spans several lines after a multi-line insert', () => {
+            assertTracked(updateRange(tracked, change(range(2, 8, 2, 8), '1\n22\n333')), range(2, 6, 4, 6), true);
+        });
+        
+        test('keeps the range when exactly its text is replaced', () => {
+            assertTracked(updateRange(tracked, change(tracked, 'there\nfriend')), range(2, 6, 3, 6), true);
+        });
+    });
+    
+    suite('overlapping the range', () => {
+        test('extends the start back to a deletion that overlaps it', () => {
+            assertTracked(updateRange(tracked, change(range(2, 4, 2, 8), '')), range(2, 4, 2, 7), true);
+        });
+        
+        test('extends the end to the text that replaced its tail', () => {
+            assertTracked(updateRange(tracked, change(range(2, 9, 3, 2), 'LD')), range(2, 6, 2, 11), true);
+        });
+        
+        test('drops the range when a deletion covers all of it', () => {
+            assert.strictEqual(updateRange(tracked, change(range(1, 0, 3, 0), '')), undefined);
+        });
+        
+        test('drops the range when its exact text is deleted', () => {
+            assert.strictEqual(updateRange(tracked, change(tracked, '')), undefined);
+        });
+        
+        test('drops the range when a larger replacement covers it', () => {
+            assert.strictEqual(updateRange(tracked, change(range(2, 0, 2, 12), 'replaced')), undefined);
+        });
+    });
+});
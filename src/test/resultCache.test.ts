@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { CommandProfile, InputMode, ShellType } from '../configManager';
+import { ResultCache } from '../resultCache';
+
+const profile: CommandProfile = {
+    name: 'Test',
+    commandTemplate: 'lookup.sh {{input}} {{prompt:Env}}',
+    shellType: ShellType.Bash,
+    timeout: 10000,
+    maxOutputSize: 1024,
+    killGracePeriod: 1000,
+    cacheTtl: 60,
+    inputMode: InputMode.Env,
+    inputEnvVar: 'COMMAND_INPUT',
+    cwd: '/work',
+    env: { MODE: 'a' },
+    showInContextMenu: false
+};
+const command = 'lookup.sh "$COMMAND_INPUT" "$COMMAND_INPUT_PROMPT_ENV"';
+
+suite('ResultCache', () => {
+    test('keys runs by their variable values, not only the command text', () => {
+        const dev = ResultCache.createKey(command, 'x', profile, { 'prompt:Env': 'dev' });
+        const prod = ResultCache.createKey(command, 'x', profile, { 'prompt:Env': 'prod' });
+        assert.notStrictEqual(dev, prod);
+    });
+    
+    test('keys runs by the profile environment and working directory', () => {
+        const key = ResultCache.createKey(command, 'x', profile, {});
+        assert.notStrictEqual(key, ResultCache.createKey(command, 'x', { ...profile, env: { MODE: 'b' } }, {}));
+        assert.notStrictEqual(key, ResultCache.createKey(command, 'x', { ...profile, cwd: '/other' }, {}));
+    });
+    
+    test('ignores the order of variables', () => {
+        assert.strictEqual(
+            ResultCache.createKey(command, 'x', profile, { line: '1', file: 'a.ts' }),
+            ResultCache.createKey(command, 'x', profile, { file: 'a.ts', line: '1' })
+        );
+    });
+    
+    test('expires entries after the TTL and evicts the least recently used', () => {
+        const cache = new ResultCache();
+        const result = { success: true, stdout: 'out', stderr: '', exitCode: 0, signal: null, durationMs: 1, truncated: false, profile: 'Test', command };
+        cache.set('a', result, 2);
+        cache.set('b', result, 2);
+        cache.get('a', 60000);
+        cache.set('c', result, 2);
+        assert.ok(cache.get('a', 60000));
+        assert.strictEqual(cache.get('b', 60000), undefined);
+        assert.strictEqual(cache.get('c', 0), undefined);
+    });
+});
@@ -0,0 +1,9 @@
+import * as vscodeStub from './vscodeStub';
+
+// Unit tests run in plain Node, where the vscode module does not exist, so hand out the stub instead
+const Module = require('module');
+const originalLoad = Module._load;
+
+Module._load = function (this: unknown, request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscodeStub : originalLoad.call(this, request, ...rest);
+};
@@ -0,0 +1,59 @@
+/**
+ * The parts of the vscode API that the modules under test touch when they are loaded or run.
+ */
+export const workspace = {
+    workspaceFolders: undefined,
+    getConfiguration: () => ({
+        get: <T>(_key: string, defaultValue?: T) => defaultValue
+    })
+};
+
+export const window = {
+    showWarningMessage: () => Promise.resolve(undefined),
+    showErrorMessage: () => Promise.resolve(undefined)
+};
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+    
+    compareTo(other: Position): number {
+        return this.line === other.line ? this.character - other.character : this.line - other.line;
+    }
+    
+    isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+    
+    isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+    
+    isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+    
+    isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+    
+    isEqual(other: Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+    
+    translate(lineDelta = 0, characterDelta = 0): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+    
+    constructor(start: Position, end: Position) {
+        [this.start, this.end] = start.isAfter(end) ? [end, start] : [start, end];
+    }
+    
+    isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+}
@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import { CommandProfile, ConfigManager } from './configManager';
+import { CommandExecutor } from './commandExecutor';
+import { EnvironmentResolver } from './environmentResolver';
+import { HoverManager, StoredOutput } from './hoverManager';
+import { getPromptValues, TemplateVariableResolver, TemplateVariables } from './templateVariables';
+
+const WATCHES_KEY = 'commandOutputHover.watches';
+
+export const MIN_WATCH_INTERVAL_SECONDS = 5;
+
+export type WatchTrigger = 'save' | 'interval';
+
+export interface Watch {
+    // The output the watch reruns; it moves with its text and keeps its ID across reruns
+    outputId: string;
+    uri: string;
+    input: string;
+    profile: string;
+    // Set when the profile came from a language or file pattern mapping, which is resolved again on each run
+    mapping?: string;
+    trigger: WatchTrigger;
+    intervalSeconds: number;
+    // Prompt answers given when the watch was added
+    prompts: TemplateVariables;
+    paused: boolean;
+    lastRun?: number;
+    lastChanged?: number;
+}
+
+/**
+ * Reruns pinned selections with their profile on document save or on an interval, and tells
+ * the user when a rerun's output differs from the previous run.
+ */
+export class WatchManager implements vscode.Disposable {
+    private watches: Watch[];
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private running: Set<string> = new Set();
+    private readonly abortController = new AbortController();
+    private readonly saveDisposable: vscode.Disposable;
+    private readonly outputsChangeDisposable: vscode.Disposable;
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    
+    // Fires whenever a watch is added, removed, paused, resumed or rerun
+    readonly onDidChangeWatches = this.changeEmitter.event;
+    
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly commandExecutor: CommandExecutor,
+        private readonly environmentResolver: EnvironmentResolver,
+        private readonly templateVariableResolver: TemplateVariableResolver,
+        private readonly hoverManager: HoverManager,
+        private readonly state: vscode.Memento
+    ) {
+        this.watches = state.get<Watch[]>(WATCHES_KEY, []);
+        this.watches.forEach(watch => this.schedule(watch));
+        this.saveDisposable = vscode.workspace.onDidSaveTextDocument(document => this.onDocumentSaved(document));
+        this.outputsChangeDisposable = hoverManager.onDidChangeOutputs(uri => this.onOutputsChanged(uri));
+    }
+    
+    getWatches(): Watch[] {
+        return [...this.watches];
+    }
+    
+    /**
+     * Runs the profile on the selection and keeps rerunning it on the trigger. Returns the first run's output.
+     */
+    async addWatch(
+        editor: vscode.TextEditor,
+        selection: vscode.Selection,
+        profile: CommandProfile,
+        trigger: WatchTrigger,
+        intervalSeconds: number,
+        prompts: TemplateVariables
+    ): Promise<StoredOutput | undefined> {
+        const range = new vscode.Range(selection.start, selection.end);
+        const stored = await this.execute(editor, range, profile, prompts);
+        if (!stored) {
+            return undefined;
+        }
+        
+        // Watching the same output again replaces its watch
+        this.removeWatch(stored.id);
+        
+        const watch: Watch = {
+            outputId: stored.id,
+            uri: editor.document.uri.toString(),
+            input: stored.input,
+            profile: profile.name,
+            mapping: profile.mapping,
+            trigger,
+            intervalSeconds: Math.max(MIN_WATCH_INTERVAL_SECONDS, intervalSeconds),
+            prompts,
+            paused: false,
+            lastRun: stored.timestamp
+        };
+        this.watches.push(watch);
+        this.schedule(watch);
+        this.onWatchesChanged();
+        
+        return stored;
+    }
+    
+    setPaused(outputId: string, paused: boolean): void {
+        const watch = this.watches.find(candidate => candidate.outputId === outputId);
+        if (watch) {
+            watch.paused = paused;
+            this.schedule(watch);
+            this.onWatchesChanged();
+        }
+    }
+    
+    removeWatch(outputId: string): void {
+        const timer = this.timers.get(outputId);
+        if (timer) {
+            clearInterval(timer);
+            this.timers.delete(outputId);
+        }
+        
+        const count = this.watches.length;
+        this.watches = this.watches.filter(watch => watch.outputId !== outputId);
+        if (this.watches.length !== count) {
+            this.onWatchesChanged();
+        }
+    }
+    
+    private schedule(watch: Watch): void {
+        const timer = this.timers.get(watch.outputId);
+        if (timer) {
+            clearInterval(timer);
+            this.timers.delete(watch.outputId);
+        }
+        
+        if (watch.trigger === 'interval' && !watch.paused) {
+            this.timers.set(watch.outputId, setInterval(() => this.runWatch(watch), watch.intervalSeconds * 1000));
+        }
+    }
+    
+    private onDocumentSaved(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        for (const watch of this.watches) {
+            if (watch.trigger === 'save' && watch.uri === uri) {
+                this.runWatch(watch);
+            }
+        }
+    }
+    
+    private onOutputsChanged(uri: vscode.Uri): void {
+        // Clearing a watched output stops its watch
+        const removed = this.watches.filter(watch =>
+            watch.uri === uri.toString() && !this.hoverManager.findOutputById(watch.outputId)
+        );
+        removed.forEach(watch => this.removeWatch(watch.outputId));
+    }
+    
+    private async runWatch(watch: Watch): Promise<void> {
+        if (watch.paused || this.running.has(watch.outputId)) {
+            return;
+        }
+        
+        const found = this.hoverManager.findOutputById(watch.outputId);
+        if (!found) {
+            this.removeWatch(watch.outputId);
+            vscode.window.showInformationMessage(`Stopped watching "${watch.input}" because its output was removed`);
+            return;
+        }
+        
+        // Context placeholders need an editor, so documents that are not visible are skipped until they are
+        const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === watch.uri);
+        if (!editor) {
+            return;
+        }
+        
+        const profile = watch.mapping
+            ? this.configManager.getProfileForDocument(editor.document)
+            : this.configManager.getProfile(watch.profile);
+        if (!profile) {
+            this.setPaused(watch.outputId, true);
+            vscode.window.showWarningMessage(`Paused watching "${watch.input}" because profile "${watch.profile}" no longer exists`);
+            return;
+        }
+        
+        this.running.add(watch.outputId);
+        try {
+            const previous = found.stored.result;
+            const stored = await this.execute(editor, found.stored.range, profile, watch.prompts, watch.outputId);
+            if (!stored) {
+                return;
+            }
+            
+            watch.input = stored.input;
+            watch.lastRun = stored.timestamp;
+            
+            if (stored.result.stdout !== previous.stdout || stored.result.exitCode !== previous.exitCode) {
+                watch.lastChanged = stored.timestamp;
+                this.notifyChanged(watch);
+            }
+            
+            this.onWatchesChanged();
+        } finally {
+            this.running.delete(watch.outputId);
+        }
+    }
+    
+    private async execute(
+        editor: vscode.TextEditor,
+        range: vscode.Range,
+        profile: CommandProfile,
+        prompts: TemplateVariables,
+        outputId?: string
+    ): Promise<StoredOutput | undefined> {
+        const document = editor.document;
+        const input = document.getText(range);
+        
+        try {
+            const resolvedProfile = await this.environmentResolver.resolve(profile, document);
+            const variables = {
+                ...prompts,
+                ...await this.templateVariableResolver.resolveContext(resolvedProfile, editor, new vscode.Selection(range.start, range.end))
+            };
+            
+            // Watches always run fresh, since they check the current state
+            const result = await this.commandExecutor.execute(input, resolvedProfile, {
+                signal: this.abortController.signal,
+                variables
+            });
+            
+            if (result.cancelled) {
+                return undefined;
+            }
+            
+            // Edits while the command ran move the watched output with its text
+            const currentRange = (outputId && this.hoverManager.findOutputById(outputId)?.stored.range) || range;
+            return this.hoverManager.storeOutput(document, currentRange, result, input, getPromptValues(prompts));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Watched command failed for "${input}": ${error}`);
+            return undefined;
+        }
+    }
+    
+    private notifyChanged(watch: Watch): void {
+        vscode.window.showInformationMessage(`The output of "${watch.input}" changed`, 'Show Output').then(answer => {
+            if (answer === 'Show Output') {
+                vscode.commands.executeCommand('commandOutputHover.showFullOutput', { id: watch.outputId });
+            }
+        });
+    }
+    
+    private onWatchesChanged(): void {
+        this.changeEmitter.fire();
+        this.state.update(WATCHES_KEY, this.watches).then(undefined, error => {
+            console.error('Failed to save watched commands:', error);
+        });
+    }
+    
+    dispose(): void {
+        this.abortController.abort();
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers.clear();
+        this.saveDisposable.dispose();
+        this.outputsChangeDisposable.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { formatAge } from './hoverManager';
+import { Watch, WatchManager } from './watchManager';
+
+const MAX_LABEL_LENGTH = 50;
+
+/**
+ * Lists watched selections in the "Watched Commands" view.
+ */
+export class WatchTreeProvider implements vscode.TreeDataProvider<Watch>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<Watch | undefined>();
+    private readonly watchesChangeDisposable: vscode.Disposable;
+    
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    
+    constructor(private readonly watchManager: WatchManager) {
+        this.watchesChangeDisposable = watchManager.onDidChangeWatches(() => this.changeEmitter.fire(undefined));
+    }
+    
+    getChildren(element?: Watch): Watch[] {
+        return element ? [] : this.watchManager.getWatches();
+    }
+    
+    getTreeItem(watch: Watch): vscode.TreeItem {
+        const singleLine = watch.input.replace(/\s+/g, ' ').trim();
+        const label = singleLine.length > MAX_LABEL_LENGTH ? singleLine.substring(0, MAX_LABEL_LENGTH) + '…' : singleLine;
+        const trigger = watch.trigger === 'save' ? 'on save' : `every ${watch.intervalSeconds}s`;
+        
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.description = `${watch.profile} · ${watch.paused ? 'paused' : trigger}`;
+        item.iconPath = new vscode.ThemeIcon(watch.paused ? 'debug-pause' : 'eye');
+        item.contextValue = watch.paused ? 'pausedWatch' : 'watch';
+        
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${watch.profile}** · ${trigger} · ${vscode.workspace.asRelativePath(vscode.Uri.parse(watch.uri))}\n\n`);
+        if (watch.lastRun !== undefined) {
+            tooltip.appendMarkdown(`Last run ${formatAge(watch.lastRun)}`);
+        }
+        if (watch.lastChanged !== undefined) {
+            tooltip.appendMarkdown(` · output last changed ${formatAge(watch.lastChanged)}`);
+        }
+        item.tooltip = tooltip;
+        
+        item.command = {
+            command: 'commandOutputHover.watches.reveal',
+            title: 'Reveal',
+            arguments: [watch]
+        };
+        return item;
+    }
+    
+    dispose(): void {
+        this.watchesChangeDisposable.dispose();
+        this.changeEmitter.dispose();
+    }
+}